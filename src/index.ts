@@ -1,12 +1,19 @@
-import fetch from "node-fetch";
+import fetch, { Response } from "node-fetch";
+import * as fs from "fs";
+import * as path from "path";
 import {
   SignalKApp,
   SignalKPlugin,
   PluginConfig,
   PluginState,
   Position,
+  Coordinates,
+  CourseActiveRoute,
+  PredictedPosition,
   OpenMeteoWeatherResponse,
   OpenMeteoMarineResponse,
+  OpenMeteoHourlyWeather,
+  OpenMeteoEnsembleResponse,
   SignalKDelta,
   SubscriptionRequest,
   WeatherProvider,
@@ -14,6 +21,24 @@ import {
   WeatherWarning,
   WeatherReqParams,
   WeatherForecastType,
+  WeatherDataType,
+  PositionForecast,
+  ForecastSnapshot,
+  TendencyKind,
+  PrecipitationKind,
+  RequestBudget,
+  OpenMeteoEndpoint,
+  VariableDefinition,
+  VariablePackage,
+  VariableConversion,
+  WeatherApiField,
+  RecordingEntry,
+  DepartureLimits,
+  DepartureWindowRequest,
+  DepartureFactor,
+  DepartureWindow,
+  SolarArray,
+  OpenMeteoAirQualityResponse,
 } from "./types";
 
 export = function (app: SignalKApp): SignalKPlugin {
@@ -36,6 +61,16 @@ export = function (app: SignalKApp): SignalKPlugin {
     lastForecastUpdate: 0,
     forecastEnabled: true,
     movingForecastEngaged: false,
+    activeRoute: null,
+    nextPoint: null,
+    forecastSnapshot: null,
+    forecastFromCache: false,
+    lastError: null,
+    movingForecastManual: false,
+    rateLimitedUntil: 0,
+    consecutiveFailures: 0,
+    degradedSince: null,
+    circuitOpenUntil: 0,
   };
 
   // WMO Weather interpretation codes (used by Open-Meteo)
@@ -195,6 +230,970 @@ export = function (app: SignalKApp): SignalKPlugin {
     return wmoCodeLongDescriptions[wmoCode] || fallback;
   };
 
+  // Open-Meteo forecast models selectable for the primary and comparison forecasts
+  // https://open-meteo.com/en/docs#weather_models
+  const WEATHER_MODELS = [
+    "best_match",
+    "ecmwf_ifs025",
+    "ecmwf_aifs025",
+    "gfs_seamless",
+    "gfs_graphcast025",
+    "icon_seamless",
+    "gem_seamless",
+    "meteofrance_seamless",
+    "ukmo_seamless",
+    "jma_seamless",
+    "metno_seamless",
+    "knmi_seamless",
+    "dmi_seamless",
+    "bom_access_global",
+    "cma_grapes_global",
+  ];
+
+  // Open-Meteo variable catalogue: request name, SignalK field name, unit conversion,
+  // metadata and Weather API mapping. The variable pickers in the schema are built from it.
+  // https://open-meteo.com/en/docs
+  const VARIABLE_CATALOGUE: VariableDefinition[] = [
+    {
+      name: "temperature_2m",
+      signalkName: "airTemperature",
+      packages: ["hourly", "current"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Temperature",
+      description: "Air temperature at 2m height",
+      weatherApi: { group: "outside", key: "temperature" },
+    },
+    {
+      name: "relative_humidity_2m",
+      signalkName: "relativeHumidity",
+      packages: ["hourly", "current"],
+      units: "ratio",
+      conversion: "percentToRatio",
+      displayName: "Relative Humidity",
+      description: "Relative humidity at 2m height (0-1)",
+      weatherApi: { group: "outside", key: "relativeHumidity" },
+    },
+    {
+      name: "dew_point_2m",
+      signalkName: "dewPoint",
+      packages: ["hourly", "current"],
+      defaults: ["hourly"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Dew Point",
+      description: "Dew point temperature at 2m height",
+      weatherApi: { group: "outside", key: "dewPointTemperature" },
+    },
+    {
+      name: "apparent_temperature",
+      signalkName: "feelsLike",
+      packages: ["hourly", "current"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Feels Like Temperature",
+      description: "Apparent temperature considering wind and humidity",
+      weatherApi: { group: "outside", key: "feelsLikeTemperature" },
+    },
+    {
+      name: "precipitation_probability",
+      signalkName: "precipProbability",
+      packages: ["hourly"],
+      units: "ratio",
+      conversion: "percentToRatio",
+      displayName: "Precipitation Probability",
+      description: "Probability of precipitation (0-1)",
+      weatherApi: { group: "outside", key: "precipitationProbability" },
+    },
+    {
+      name: "precipitation",
+      signalkName: "precip",
+      packages: ["hourly", "current"],
+      units: "m",
+      conversion: "mmToM",
+      displayName: "Precipitation",
+      description: "Precipitation amount",
+      weatherApi: { group: "outside", key: "precipitationVolume" },
+    },
+    {
+      name: "rain",
+      signalkName: "rain",
+      packages: ["hourly", "current"],
+      units: "m",
+      conversion: "mmToM",
+      displayName: "Rain",
+      description: "Rain amount",
+    },
+    {
+      name: "showers",
+      signalkName: "showers",
+      packages: ["hourly", "current"],
+      units: "m",
+      conversion: "mmToM",
+      displayName: "Showers",
+      description: "Convective shower precipitation amount",
+    },
+    {
+      name: "snowfall",
+      signalkName: "snowfall",
+      packages: ["hourly", "current"],
+      units: "m",
+      conversion: "cmToM",
+      displayName: "Snowfall",
+      description: "Snowfall amount",
+    },
+    {
+      name: "snow_depth",
+      signalkName: "snowDepth",
+      packages: ["hourly"],
+      defaults: [],
+      units: "m",
+      displayName: "Snow Depth",
+      description: "Snow depth on the ground",
+    },
+    {
+      name: "weather_code",
+      signalkName: "weatherCode",
+      packages: ["hourly", "current", "daily"],
+      displayName: "Weather Code",
+      description: "WMO weather interpretation code",
+    },
+    {
+      name: "pressure_msl",
+      signalkName: "seaLevelPressure",
+      packages: ["hourly", "current"],
+      units: "Pa",
+      conversion: "hPaToPa",
+      displayName: "Sea Level Pressure",
+      description: "Atmospheric pressure at mean sea level",
+      weatherApi: { group: "outside", key: "pressure" },
+    },
+    {
+      name: "surface_pressure",
+      signalkName: "stationPressure",
+      packages: ["hourly", "current"],
+      units: "Pa",
+      conversion: "hPaToPa",
+      displayName: "Surface Pressure",
+      description: "Atmospheric pressure at surface",
+    },
+    {
+      name: "cloud_cover",
+      signalkName: "cloudCover",
+      packages: ["hourly", "current"],
+      units: "ratio",
+      conversion: "percentToRatio",
+      displayName: "Cloud Cover",
+      description: "Total cloud cover (0-1)",
+      weatherApi: { group: "outside", key: "cloudCover" },
+    },
+    {
+      name: "cloud_cover_low",
+      signalkName: "lowCloudCover",
+      packages: ["hourly", "current"],
+      defaults: ["hourly"],
+      units: "ratio",
+      conversion: "percentToRatio",
+      displayName: "Low Cloud Cover",
+      description: "Low altitude cloud cover (0-1)",
+      weatherApi: { group: "outside", key: "lowCloudCover" },
+    },
+    {
+      name: "cloud_cover_mid",
+      signalkName: "midCloudCover",
+      packages: ["hourly", "current"],
+      defaults: ["hourly"],
+      units: "ratio",
+      conversion: "percentToRatio",
+      displayName: "Mid Cloud Cover",
+      description: "Mid altitude cloud cover (0-1)",
+      weatherApi: { group: "outside", key: "midCloudCover" },
+    },
+    {
+      name: "cloud_cover_high",
+      signalkName: "highCloudCover",
+      packages: ["hourly", "current"],
+      defaults: ["hourly"],
+      units: "ratio",
+      conversion: "percentToRatio",
+      displayName: "High Cloud Cover",
+      description: "High altitude cloud cover (0-1)",
+      weatherApi: { group: "outside", key: "highCloudCover" },
+    },
+    {
+      name: "visibility",
+      signalkName: "visibility",
+      packages: ["hourly", "current"],
+      defaults: ["hourly"],
+      units: "m",
+      displayName: "Visibility",
+      description: "Horizontal visibility",
+      weatherApi: { group: "outside", key: "horizontalVisibility" },
+    },
+    {
+      name: "wind_speed_10m",
+      signalkName: "windAvg",
+      packages: ["hourly", "current"],
+      units: "m/s",
+      displayName: "Wind Speed",
+      description: "Wind speed at 10m height",
+      weatherApi: { group: "wind", key: "speedTrue" },
+    },
+    {
+      name: "wind_direction_10m",
+      signalkName: "windDirection",
+      packages: ["hourly", "current"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Wind Direction",
+      description: "Wind direction at 10m height",
+      weatherApi: { group: "wind", key: "directionTrue" },
+    },
+    {
+      name: "wind_gusts_10m",
+      signalkName: "windGust",
+      packages: ["hourly", "current"],
+      units: "m/s",
+      displayName: "Wind Gusts",
+      description: "Wind gust speed at 10m height",
+      weatherApi: { group: "wind", key: "gust" },
+    },
+    {
+      name: "wind_speed_80m",
+      signalkName: "windAvg80m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "m/s",
+      displayName: "Wind Speed (80m)",
+      description: "Wind speed at 80m height",
+    },
+    {
+      name: "wind_speed_120m",
+      signalkName: "windAvg120m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "m/s",
+      displayName: "Wind Speed (120m)",
+      description: "Wind speed at 120m height",
+    },
+    {
+      name: "wind_speed_180m",
+      signalkName: "windAvg180m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "m/s",
+      displayName: "Wind Speed (180m)",
+      description: "Wind speed at 180m height",
+    },
+    {
+      name: "wind_direction_80m",
+      signalkName: "windDirection80m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Wind Direction (80m)",
+      description: "Wind direction at 80m height",
+    },
+    {
+      name: "wind_direction_120m",
+      signalkName: "windDirection120m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Wind Direction (120m)",
+      description: "Wind direction at 120m height",
+    },
+    {
+      name: "wind_direction_180m",
+      signalkName: "windDirection180m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Wind Direction (180m)",
+      description: "Wind direction at 180m height",
+    },
+    {
+      name: "temperature_80m",
+      signalkName: "airTemperature80m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Temperature (80m)",
+      description: "Air temperature at 80m height",
+    },
+    {
+      name: "temperature_120m",
+      signalkName: "airTemperature120m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Temperature (120m)",
+      description: "Air temperature at 120m height",
+    },
+    {
+      name: "temperature_180m",
+      signalkName: "airTemperature180m",
+      packages: ["hourly"],
+      defaults: [],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Temperature (180m)",
+      description: "Air temperature at 180m height",
+    },
+    {
+      name: "uv_index",
+      signalkName: "uvIndex",
+      packages: ["hourly"],
+      displayName: "UV Index",
+      description: "UV index",
+      weatherApi: { group: "outside", key: "uvIndex" },
+    },
+    {
+      name: "is_day",
+      signalkName: "isDaylight",
+      packages: ["hourly", "current"],
+      displayName: "Is Daylight",
+      description: "Whether it is day (1) or night (0)",
+    },
+    {
+      name: "sunshine_duration",
+      signalkName: "sunshineDuration",
+      packages: ["hourly", "daily"],
+      units: "s",
+      displayName: "Sunshine Duration",
+      description: "Duration of sunshine",
+    },
+    {
+      name: "cape",
+      signalkName: "cape",
+      packages: ["hourly", "current"],
+      defaults: ["hourly"],
+      units: "J/kg",
+      displayName: "CAPE",
+      description: "Convective Available Potential Energy",
+    },
+    {
+      name: "lifted_index",
+      signalkName: "liftedIndex",
+      packages: ["hourly"],
+      defaults: [],
+      units: "K",
+      displayName: "Lifted Index",
+      description: "Lifted index, negative values indicate an unstable atmosphere",
+    },
+    {
+      name: "convective_inhibition",
+      signalkName: "convectiveInhibition",
+      packages: ["hourly"],
+      defaults: [],
+      units: "J/kg",
+      displayName: "Convective Inhibition",
+      description: "Energy needed to start convection",
+    },
+    {
+      name: "freezing_level_height",
+      signalkName: "freezingLevelHeight",
+      packages: ["hourly"],
+      defaults: [],
+      units: "m",
+      displayName: "Freezing Level",
+      description: "Altitude of the 0°C isotherm",
+    },
+    {
+      name: "vapour_pressure_deficit",
+      signalkName: "vapourPressureDeficit",
+      packages: ["hourly"],
+      defaults: [],
+      units: "Pa",
+      conversion: "kPaToPa",
+      displayName: "Vapour Pressure Deficit",
+      description: "Difference between saturation and actual vapour pressure",
+    },
+    {
+      name: "shortwave_radiation",
+      signalkName: "solarRadiation",
+      packages: ["hourly"],
+      units: "W/m2",
+      displayName: "Solar Radiation",
+      description: "Shortwave solar radiation",
+      weatherApi: { group: "outside", key: "solarRadiation" },
+    },
+    {
+      name: "direct_radiation",
+      signalkName: "directRadiation",
+      packages: ["hourly"],
+      units: "W/m2",
+      displayName: "Direct Radiation",
+      description: "Direct solar radiation",
+    },
+    {
+      name: "diffuse_radiation",
+      signalkName: "diffuseRadiation",
+      packages: ["hourly"],
+      units: "W/m2",
+      displayName: "Diffuse Radiation",
+      description: "Diffuse solar radiation",
+      weatherApi: { group: "outside", key: "diffuseHorizontalIrradiance" },
+    },
+    {
+      name: "direct_normal_irradiance",
+      signalkName: "irradianceDirectNormal",
+      packages: ["hourly"],
+      units: "W/m2",
+      displayName: "Direct Normal Irradiance",
+      description: "Direct normal solar irradiance",
+      weatherApi: { group: "outside", key: "directNormalIrradiance" },
+    },
+    {
+      name: "temperature_2m_max",
+      signalkName: "airTempHigh",
+      packages: ["daily"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "High Temperature",
+      description: "Maximum air temperature",
+      weatherApi: { group: "outside", key: "maxTemperature" },
+    },
+    {
+      name: "temperature_2m_min",
+      signalkName: "airTempLow",
+      packages: ["daily"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Low Temperature",
+      description: "Minimum air temperature",
+      weatherApi: { group: "outside", key: "minTemperature" },
+    },
+    {
+      name: "apparent_temperature_max",
+      signalkName: "feelsLikeHigh",
+      packages: ["daily"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Feels Like High",
+      description: "Maximum apparent temperature",
+      weatherApi: { group: "outside", key: "feelsLikeTemperature" },
+    },
+    {
+      name: "apparent_temperature_min",
+      signalkName: "feelsLikeLow",
+      packages: ["daily"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Feels Like Low",
+      description: "Minimum apparent temperature",
+    },
+    {
+      name: "sunrise",
+      signalkName: "sunrise",
+      packages: ["daily"],
+      displayName: "Sunrise",
+      description: "Sunrise time",
+    },
+    {
+      name: "sunset",
+      signalkName: "sunset",
+      packages: ["daily"],
+      displayName: "Sunset",
+      description: "Sunset time",
+    },
+    {
+      name: "daylight_duration",
+      signalkName: "daylightDuration",
+      packages: ["daily"],
+      units: "s",
+      displayName: "Daylight Duration",
+      description: "Duration of daylight",
+    },
+    {
+      name: "uv_index_max",
+      signalkName: "uvIndexMax",
+      packages: ["daily"],
+      displayName: "Max UV Index",
+      description: "Maximum UV index",
+      weatherApi: { group: "outside", key: "uvIndex" },
+    },
+    {
+      name: "precipitation_sum",
+      signalkName: "precipSum",
+      packages: ["daily"],
+      units: "m",
+      conversion: "mmToM",
+      displayName: "Precipitation Sum",
+      description: "Total precipitation amount",
+      weatherApi: { group: "outside", key: "precipitationVolume" },
+    },
+    {
+      name: "rain_sum",
+      signalkName: "rainSum",
+      packages: ["daily"],
+      units: "m",
+      conversion: "mmToM",
+      displayName: "Rain Sum",
+      description: "Total rain amount",
+    },
+    {
+      name: "showers_sum",
+      signalkName: "showersSum",
+      packages: ["daily"],
+      units: "m",
+      conversion: "mmToM",
+      displayName: "Showers Sum",
+      description: "Total convective shower amount",
+    },
+    {
+      name: "snowfall_sum",
+      signalkName: "snowfallSum",
+      packages: ["daily"],
+      units: "m",
+      conversion: "cmToM",
+      displayName: "Snowfall Sum",
+      description: "Total snowfall amount",
+    },
+    {
+      name: "precipitation_hours",
+      signalkName: "precipHours",
+      packages: ["daily"],
+      units: "h",
+      displayName: "Precipitation Hours",
+      description: "Number of hours with precipitation",
+    },
+    {
+      name: "precipitation_probability_max",
+      signalkName: "precipProbabilityMax",
+      packages: ["daily"],
+      units: "ratio",
+      conversion: "percentToRatio",
+      displayName: "Max Precipitation Probability",
+      description: "Maximum probability of precipitation (0-1)",
+      weatherApi: { group: "outside", key: "precipitationProbability" },
+    },
+    {
+      name: "wind_speed_10m_max",
+      signalkName: "windAvgMax",
+      packages: ["daily"],
+      units: "m/s",
+      displayName: "Max Wind Speed",
+      description: "Maximum wind speed",
+      weatherApi: { group: "wind", key: "speedTrue" },
+    },
+    {
+      name: "wind_gusts_10m_max",
+      signalkName: "windGustMax",
+      packages: ["daily"],
+      units: "m/s",
+      displayName: "Max Wind Gusts",
+      description: "Maximum wind gust speed",
+      weatherApi: { group: "wind", key: "gust" },
+    },
+    {
+      name: "wind_direction_10m_dominant",
+      signalkName: "windDirectionDominant",
+      packages: ["daily"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Dominant Wind Direction",
+      description: "Dominant wind direction",
+      weatherApi: { group: "wind", key: "directionTrue" },
+    },
+    {
+      name: "shortwave_radiation_sum",
+      signalkName: "solarRadiationSum",
+      packages: ["daily"],
+      units: "J/m2",
+      displayName: "Total Solar Radiation",
+      description: "Total shortwave solar radiation",
+      weatherApi: { group: "outside", key: "solarRadiation" },
+    },
+    {
+      name: "wave_height",
+      signalkName: "significantWaveHeight",
+      packages: ["marineHourly"],
+      units: "m",
+      displayName: "Wave Height",
+      description: "Significant wave height",
+      weatherApi: { group: "water", key: "waveSignificantHeight" },
+    },
+    {
+      name: "wave_direction",
+      signalkName: "meanWaveDirection",
+      packages: ["marineHourly"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Wave Direction",
+      description: "Mean wave direction",
+      weatherApi: { group: "water", key: "waveDirection" },
+    },
+    {
+      name: "wave_period",
+      signalkName: "meanWavePeriod",
+      packages: ["marineHourly"],
+      units: "s",
+      displayName: "Wave Period",
+      description: "Mean wave period",
+      weatherApi: { group: "water", key: "wavePeriod" },
+    },
+    {
+      name: "wind_wave_height",
+      signalkName: "windWaveHeight",
+      packages: ["marineHourly"],
+      units: "m",
+      displayName: "Wind Wave Height",
+      description: "Wind-generated wave height",
+      weatherApi: { group: "water", key: "windWaveHeight" },
+    },
+    {
+      name: "wind_wave_direction",
+      signalkName: "windWaveDirection",
+      packages: ["marineHourly"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Wind Wave Direction",
+      description: "Wind-generated wave direction",
+      weatherApi: { group: "water", key: "windWaveDirection" },
+    },
+    {
+      name: "wind_wave_period",
+      signalkName: "windWavePeriod",
+      packages: ["marineHourly"],
+      units: "s",
+      displayName: "Wind Wave Period",
+      description: "Wind-generated wave period",
+      weatherApi: { group: "water", key: "windWavePeriod" },
+    },
+    {
+      name: "wind_wave_peak_period",
+      signalkName: "windWavePeakPeriod",
+      packages: ["marineHourly"],
+      units: "s",
+      displayName: "Wind Wave Peak Period",
+      description: "Peak period of wind-generated waves",
+      weatherApi: { group: "water", key: "windWavePeakPeriod" },
+    },
+    {
+      name: "swell_wave_height",
+      signalkName: "swellSignificantHeight",
+      packages: ["marineHourly"],
+      units: "m",
+      displayName: "Swell Height",
+      description: "Swell wave height",
+      weatherApi: { group: "water", key: "swellHeight" },
+    },
+    {
+      name: "swell_wave_direction",
+      signalkName: "swellMeanDirection",
+      packages: ["marineHourly"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Swell Direction",
+      description: "Swell wave direction",
+      weatherApi: { group: "water", key: "swellDirection" },
+    },
+    {
+      name: "swell_wave_period",
+      signalkName: "swellMeanPeriod",
+      packages: ["marineHourly"],
+      units: "s",
+      displayName: "Swell Period",
+      description: "Swell wave period",
+      weatherApi: { group: "water", key: "swellPeriod" },
+    },
+    {
+      name: "swell_wave_peak_period",
+      signalkName: "swellPeakPeriod",
+      packages: ["marineHourly"],
+      units: "s",
+      displayName: "Swell Peak Period",
+      description: "Peak period of swell waves",
+      weatherApi: { group: "water", key: "swellPeakPeriod" },
+    },
+    {
+      name: "secondary_swell_wave_height",
+      signalkName: "secondarySwellHeight",
+      packages: ["marineHourly"],
+      defaults: [],
+      units: "m",
+      displayName: "Secondary Swell Height",
+      description: "Secondary swell wave height",
+    },
+    {
+      name: "secondary_swell_wave_direction",
+      signalkName: "secondarySwellDirection",
+      packages: ["marineHourly"],
+      defaults: [],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Secondary Swell Direction",
+      description: "Secondary swell wave direction",
+    },
+    {
+      name: "secondary_swell_wave_period",
+      signalkName: "secondarySwellPeriod",
+      packages: ["marineHourly"],
+      defaults: [],
+      units: "s",
+      displayName: "Secondary Swell Period",
+      description: "Secondary swell wave period",
+    },
+    {
+      name: "ocean_current_velocity",
+      signalkName: "currentVelocity",
+      packages: ["marineHourly"],
+      units: "m/s",
+      conversion: "kmhToMs",
+      displayName: "Current Speed",
+      description: "Ocean current velocity",
+      weatherApi: { group: "water", key: "surfaceCurrentSpeed" },
+    },
+    {
+      name: "ocean_current_direction",
+      signalkName: "currentDirection",
+      packages: ["marineHourly"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Current Direction",
+      description: "Ocean current direction",
+      weatherApi: { group: "water", key: "surfaceCurrentDirection" },
+    },
+    {
+      name: "sea_surface_temperature",
+      signalkName: "seaSurfaceTemperature",
+      packages: ["marineHourly"],
+      units: "K",
+      conversion: "celsiusToKelvin",
+      displayName: "Sea Surface Temperature",
+      description: "Sea surface temperature",
+      weatherApi: { group: "water", key: "temperature" },
+    },
+    {
+      name: "sea_level_height_msl",
+      signalkName: "seaLevelHeight",
+      packages: ["marineHourly"],
+      defaults: [],
+      units: "m",
+      displayName: "Sea Level Height",
+      description: "Sea level height including tides, relative to mean sea level",
+      weatherApi: { group: "water", key: "level" },
+    },
+    {
+      name: "wave_height_max",
+      signalkName: "significantWaveHeightMax",
+      packages: ["marineDaily"],
+      units: "m",
+      displayName: "Max Wave Height",
+      description: "Maximum significant wave height",
+      weatherApi: { group: "water", key: "waveSignificantHeight" },
+    },
+    {
+      name: "wave_direction_dominant",
+      signalkName: "meanWaveDirectionDominant",
+      packages: ["marineDaily"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Dominant Wave Direction",
+      description: "Dominant wave direction",
+      weatherApi: { group: "water", key: "waveDirection" },
+    },
+    {
+      name: "wave_period_max",
+      signalkName: "meanWavePeriodMax",
+      packages: ["marineDaily"],
+      units: "s",
+      displayName: "Max Wave Period",
+      description: "Maximum wave period",
+      weatherApi: { group: "water", key: "wavePeriod" },
+    },
+    {
+      name: "wind_wave_height_max",
+      signalkName: "windWaveHeightMax",
+      packages: ["marineDaily"],
+      units: "m",
+      displayName: "Max Wind Wave Height",
+      description: "Maximum wind-generated wave height",
+      weatherApi: { group: "water", key: "windWaveHeight" },
+    },
+    {
+      name: "wind_wave_direction_dominant",
+      signalkName: "windWaveDirectionDominant",
+      packages: ["marineDaily"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Dominant Wind Wave Direction",
+      description: "Dominant wind-generated wave direction",
+      weatherApi: { group: "water", key: "windWaveDirection" },
+    },
+    {
+      name: "wind_wave_period_max",
+      signalkName: "windWavePeriodMax",
+      packages: ["marineDaily"],
+      units: "s",
+      displayName: "Max Wind Wave Period",
+      description: "Maximum wind-generated wave period",
+      weatherApi: { group: "water", key: "windWavePeriod" },
+    },
+    {
+      name: "wind_wave_peak_period_max",
+      signalkName: "windWavePeakPeriodMax",
+      packages: ["marineDaily"],
+      units: "s",
+      displayName: "Max Wind Wave Peak Period",
+      description: "Maximum peak period of wind-generated waves",
+      weatherApi: { group: "water", key: "windWavePeakPeriod" },
+    },
+    {
+      name: "swell_wave_height_max",
+      signalkName: "swellSignificantHeightMax",
+      packages: ["marineDaily"],
+      units: "m",
+      displayName: "Max Swell Height",
+      description: "Maximum swell wave height",
+      weatherApi: { group: "water", key: "swellHeight" },
+    },
+    {
+      name: "swell_wave_direction_dominant",
+      signalkName: "swellMeanDirectionDominant",
+      packages: ["marineDaily"],
+      units: "rad",
+      conversion: "degToRad",
+      displayName: "Dominant Swell Direction",
+      description: "Dominant swell wave direction",
+      weatherApi: { group: "water", key: "swellDirection" },
+    },
+    {
+      name: "swell_wave_period_max",
+      signalkName: "swellMeanPeriodMax",
+      packages: ["marineDaily"],
+      units: "s",
+      displayName: "Max Swell Period",
+      description: "Maximum swell wave period",
+      weatherApi: { group: "water", key: "swellPeriod" },
+    },
+    {
+      name: "swell_wave_peak_period_max",
+      signalkName: "swellPeakPeriodMax",
+      packages: ["marineDaily"],
+      units: "s",
+      displayName: "Max Swell Peak Period",
+      description: "Maximum peak period of swell waves",
+      weatherApi: { group: "water", key: "swellPeakPeriod" },
+    },
+    {
+      name: "pm2_5",
+      signalkName: "pm25",
+      packages: ["airQuality"],
+      units: "kg/m3",
+      conversion: "microgramsToKilograms",
+      displayName: "PM2.5",
+      description: "Fine particulate matter (diameter below 2.5 µm) at 10m height",
+    },
+    {
+      name: "pm10",
+      signalkName: "pm10",
+      packages: ["airQuality"],
+      units: "kg/m3",
+      conversion: "microgramsToKilograms",
+      displayName: "PM10",
+      description: "Particulate matter (diameter below 10 µm) at 10m height",
+    },
+    {
+      name: "ozone",
+      signalkName: "ozone",
+      packages: ["airQuality"],
+      units: "kg/m3",
+      conversion: "microgramsToKilograms",
+      displayName: "Ozone",
+      description: "Ozone concentration at 10m height",
+    },
+    {
+      name: "dust",
+      signalkName: "dust",
+      packages: ["airQuality"],
+      units: "kg/m3",
+      conversion: "microgramsToKilograms",
+      displayName: "Dust",
+      description: "Saharan and desert dust concentration at 10m height",
+    },
+    {
+      name: "european_aqi",
+      signalkName: "europeanAqi",
+      packages: ["airQuality"],
+      displayName: "European AQI",
+      description: "European Air Quality Index (0-20 good, above 100 extremely poor)",
+    },
+    {
+      name: "us_aqi",
+      signalkName: "usAqi",
+      packages: ["airQuality"],
+      displayName: "US AQI",
+      description: "United States Air Quality Index (0-50 good, above 300 hazardous)",
+    },
+    {
+      name: "carbon_monoxide",
+      signalkName: "carbonMonoxide",
+      packages: ["airQuality"],
+      defaults: [],
+      units: "kg/m3",
+      conversion: "microgramsToKilograms",
+      displayName: "Carbon Monoxide",
+      description: "Carbon monoxide concentration at 10m height",
+    },
+    {
+      name: "nitrogen_dioxide",
+      signalkName: "nitrogenDioxide",
+      packages: ["airQuality"],
+      defaults: [],
+      units: "kg/m3",
+      conversion: "microgramsToKilograms",
+      displayName: "Nitrogen Dioxide",
+      description: "Nitrogen dioxide concentration at 10m height",
+    },
+    {
+      name: "sulphur_dioxide",
+      signalkName: "sulphurDioxide",
+      packages: ["airQuality"],
+      defaults: [],
+      units: "kg/m3",
+      conversion: "microgramsToKilograms",
+      displayName: "Sulphur Dioxide",
+      description: "Sulphur dioxide concentration at 10m height",
+    },
+  ];
+
+  const VARIABLE_PACKAGES: Array<{ id: VariablePackage; title: string }> = [
+    { id: "hourly", title: "Hourly Weather" },
+    { id: "daily", title: "Daily Weather" },
+    { id: "current", title: "Current Conditions" },
+    { id: "marineHourly", title: "Hourly Marine" },
+    { id: "marineDaily", title: "Daily Marine" },
+    { id: "airQuality", title: "Hourly Air Quality" },
+  ];
+
+  const getCatalogueVariables = (pkg: VariablePackage): VariableDefinition[] =>
+    VARIABLE_CATALOGUE.filter((variable) => variable.packages.includes(pkg));
+
+  const getDefaultVariables = (pkg: VariablePackage): string[] =>
+    getCatalogueVariables(pkg)
+      .filter((variable) => (variable.defaults || variable.packages).includes(pkg))
+      .map((variable) => variable.name);
+
+  // Selected variables per package: catalogue defaults when not configured, unknown names dropped
+  const resolveVariables = (
+    selected?: Partial<Record<VariablePackage, string[]>>,
+  ): Record<VariablePackage, string[]> =>
+    Object.fromEntries(
+      VARIABLE_PACKAGES.map(({ id }) => {
+        const chosen = selected?.[id];
+        if (!Array.isArray(chosen)) return [id, getDefaultVariables(id)];
+        const available = getCatalogueVariables(id).map((variable) => variable.name);
+        return [id, chosen.filter((name) => available.includes(name))];
+      }),
+    ) as Record<VariablePackage, string[]>;
+
   // Configuration schema
   plugin.schema = {
     type: "object",
@@ -206,6 +1205,48 @@ export = function (app: SignalKApp): SignalKPlugin {
         description:
           "Open-Meteo API key for commercial use. Leave empty for free non-commercial use.",
       },
+      endpoints: {
+        type: "object",
+        title: "API Endpoints",
+        description:
+          "Base URLs for a self-hosted Open-Meteo instance or a mock server. Leave empty to use the public (or customer, with an API key) endpoints.",
+        properties: {
+          forecast: {
+            type: "string",
+            title: "Forecast API URL",
+            description: "e.g. http://192.168.1.10:8080/v1/forecast",
+          },
+          marine: {
+            type: "string",
+            title: "Marine API URL",
+            description: "e.g. http://192.168.1.10:8080/v1/marine",
+          },
+          ensemble: {
+            type: "string",
+            title: "Ensemble API URL",
+            description: "e.g. http://192.168.1.10:8080/v1/ensemble",
+          },
+          airQuality: {
+            type: "string",
+            title: "Air Quality API URL",
+            description: "e.g. http://192.168.1.10:8080/v1/air-quality",
+          },
+        },
+      },
+      customHeaders: {
+        type: "array",
+        title: "Custom Request Headers",
+        description: "Extra HTTP headers sent with every Open-Meteo request (e.g. for a reverse proxy)",
+        items: {
+          type: "object",
+          required: ["name", "value"],
+          properties: {
+            name: { type: "string", title: "Header Name" },
+            value: { type: "string", title: "Header Value" },
+          },
+        },
+        default: [],
+      },
       forecastInterval: {
         type: "number",
         title: "Forecast Update Interval (minutes)",
@@ -291,9 +1332,396 @@ export = function (app: SignalKApp): SignalKPlugin {
         minimum: 0.1,
         maximum: 10.0,
       },
+      primaryModel: {
+        type: "string",
+        title: "Primary Weather Model",
+        description:
+          "Model served by the Weather API and published under forecast.hourly/daily. best_match lets Open-Meteo blend the best models for the location",
+        default: "best_match",
+        enum: WEATHER_MODELS,
+      },
+      models: {
+        type: "array",
+        title: "Comparison Weather Models",
+        description:
+          "Additional models fetched at the vessel position and published under forecast.<model>.hourly",
+        default: [],
+        items: {
+          type: "string",
+          enum: WEATHER_MODELS,
+        },
+        uniqueItems: true,
+      },
+      variables: {
+        type: "object",
+        title: "Forecast Variables",
+        description:
+          "Open-Meteo variables requested for each package. Deselect variables you don't need, or add ones the defaults leave out.",
+        properties: Object.fromEntries(
+          VARIABLE_PACKAGES.map(({ id, title }) => {
+            const variables = getCatalogueVariables(id);
+            return [
+              id,
+              {
+                type: "array",
+                title,
+                default: getDefaultVariables(id),
+                items: {
+                  type: "string",
+                  enum: variables.map((variable) => variable.name),
+                  enumNames: variables.map(
+                    (variable) => `${variable.displayName} (${variable.name})`,
+                  ),
+                },
+                uniqueItems: true,
+              },
+            ];
+          }),
+        ),
+      },
+      enableWindAloft: {
+        type: "boolean",
+        title: "Enable Wind and Temperature Aloft",
+        description:
+          "Fetch wind speed, direction and temperature at 80, 120 and 180 m with the hourly forecast",
+        default: false,
+      },
+      mastheadHeight: {
+        type: "number",
+        title: "Masthead Height (meters)",
+        description:
+          "Height above the waterline to interpolate the wind profile to (0 = off). Needs wind aloft for heights other than 10 m.",
+        default: 0,
+        minimum: 0,
+        maximum: 200,
+      },
+      enableVerification: {
+        type: "boolean",
+        title: "Enable Forecast Verification",
+        description:
+          "Compare hourly forecasts with onboard wind speed, pressure, air and water temperature and publish bias, MAE and hit rate",
+        default: false,
+      },
+      verificationWindowHours: {
+        type: "number",
+        title: "Verification Window (hours)",
+        description: "Number of past hours in the rolling verification statistics",
+        default: 72,
+        minimum: 6,
+        maximum: 720,
+      },
+      departureMaxWind: {
+        type: "number",
+        title: "Departure Planning: Max Wind (knots)",
+        description: "Default sustained wind limit for the departure window finder",
+        default: 25,
+      },
+      departureMaxGust: {
+        type: "number",
+        title: "Departure Planning: Max Gust (knots)",
+        description: "Default gust limit for the departure window finder",
+        default: 35,
+      },
+      departureMaxWaveHeight: {
+        type: "number",
+        title: "Departure Planning: Max Wave Height (m)",
+        description: "Default significant wave height limit for the departure window finder",
+        default: 2.5,
+      },
+      departureMinWindAngle: {
+        type: "number",
+        title: "Departure Planning: Min Wind Angle (degrees)",
+        description: "Closest true wind angle off the bow the passage may sail, 0 = no limit",
+        default: 40,
+        minimum: 0,
+        maximum: 180,
+      },
+      departureMaxWindAngle: {
+        type: "number",
+        title: "Departure Planning: Max Wind Angle (degrees)",
+        description: "Deepest true wind angle off the bow the passage may sail, 180 = no limit",
+        default: 180,
+        minimum: 0,
+        maximum: 180,
+      },
+      recordingMode: {
+        type: "string",
+        title: "Record / Replay Mode",
+        description:
+          "Record Open-Meteo responses and navigation inputs to the data directory, or replay a recording without network access",
+        default: "off",
+        enum: ["off", "record", "replay"],
+      },
+      recordingFile: {
+        type: "string",
+        title: "Recording File",
+        description: "File name in the plugin data directory",
+        default: "recording.jsonl",
+      },
+      replaySpeed: {
+        type: "number",
+        title: "Replay Speed",
+        description: "Speed-up factor for replayed navigation inputs",
+        default: 1,
+        minimum: 1,
+        maximum: 3600,
+      },
+      enableBiasCorrection: {
+        type: "boolean",
+        title: "Enable Bias Correction",
+        description:
+          "Correct the first forecast hours with the error learned by forecast verification (scale for wind, offset for pressure and temperatures). Requires Enable Forecast Verification",
+        default: false,
+      },
+      biasCorrectionHours: {
+        type: "number",
+        title: "Bias Correction Hours",
+        description: "Forecast hours the correction applies to, tapering to none at this hour",
+        default: 12,
+        minimum: 1,
+        maximum: 72,
+      },
+      enableAirQuality: {
+        type: "boolean",
+        title: "Enable Air Quality Forecast",
+        description:
+          "Fetch the hourly air quality forecast (PM2.5, PM10, ozone, dust, European/US AQI). Costs one extra request per fetch.",
+        default: false,
+      },
+      solarArrays: {
+        type: "array",
+        title: "Solar Panel Arrays",
+        description:
+          "Panel arrays for the solar production forecast. Each array costs one extra request per fetch.",
+        default: [],
+        items: {
+          type: "object",
+          required: ["name", "peakPower"],
+          properties: {
+            name: { type: "string", title: "Name", default: "Main" },
+            tilt: {
+              type: "number",
+              title: "Tilt (degrees)",
+              description: "0 = flat, 90 = vertical",
+              default: 0,
+              minimum: 0,
+              maximum: 90,
+            },
+            azimuth: {
+              type: "number",
+              title: "Azimuth (degrees true)",
+              description: "Compass direction the panels face (180 = south)",
+              default: 180,
+              minimum: 0,
+              maximum: 360,
+            },
+            peakPower: {
+              type: "number",
+              title: "Peak Power (W)",
+              description: "Rated output at 1000 W/m2",
+              minimum: 1,
+            },
+            losses: {
+              type: "number",
+              title: "System Losses (%)",
+              description: "Controller, wiring, temperature and soiling losses",
+              default: 14,
+              minimum: 0,
+              maximum: 100,
+            },
+          },
+        },
+      },
+      enableEnsemble: {
+        type: "boolean",
+        title: "Enable Ensemble Forecast",
+        description:
+          "Fetch the ensemble forecast and publish min/p10/median/p90/max spread for wind, gusts, pressure and precipitation",
+        default: false,
+      },
+      ensembleModel: {
+        type: "string",
+        title: "Ensemble Model",
+        description: "Open-Meteo ensemble model used for the uncertainty bands",
+        default: "ecmwf_ifs025",
+        enum: [
+          "ecmwf_ifs025",
+          "ecmwf_aifs025",
+          "gfs_seamless",
+          "icon_seamless",
+          "gem_global",
+          "ukmo_global_ensemble_20km",
+          "bom_access_global_ensemble",
+        ],
+      },
+      enableRouteForecast: {
+        type: "boolean",
+        title: "Enable Route Forecast",
+        description:
+          "In moving forecast mode, follow the active route from the SignalK course API instead of projecting a straight line",
+        default: true,
+      },
+      routePlanningSpeed: {
+        type: "number",
+        title: "Route Planning Speed (knots)",
+        description:
+          "Speed used to walk the active route. Set to 0 to use the current speed over ground",
+        default: 0,
+        minimum: 0,
+        maximum: 50,
+      },
+      positionTolerance: {
+        type: "number",
+        title: "Weather API Position Tolerance (nm)",
+        description:
+          "Weather API requests within this distance of the vessel use the published forecast; requests further away are fetched on demand",
+        default: 5,
+        minimum: 0,
+        maximum: 100,
+      },
+      enableWarnings: {
+        type: "boolean",
+        title: "Enable Derived Warnings",
+        description:
+          "Derive Weather API warnings from the forecast using the thresholds below",
+        default: true,
+      },
+      galeWarningForce: {
+        type: "number",
+        title: "Gale Warning (Beaufort force)",
+        description:
+          "Warn when mean wind reaches this force, or gusts reach two forces higher",
+        default: 8,
+        minimum: 5,
+        maximum: 12,
+      },
+      stormWarningForce: {
+        type: "number",
+        title: "Storm Warning (Beaufort force)",
+        description:
+          "Warn when mean wind reaches this force, or gusts reach two forces higher",
+        default: 10,
+        minimum: 6,
+        maximum: 12,
+      },
+      waveHeightWarning: {
+        type: "number",
+        title: "Wave Height Warning (m)",
+        description: "Warn when significant wave height reaches this value",
+        default: 4,
+        minimum: 0.5,
+        maximum: 20,
+      },
+      capeWarning: {
+        type: "number",
+        title: "Thunderstorm CAPE Warning (J/kg)",
+        description:
+          "Warn of thunderstorms when CAPE reaches this value (WMO codes 95-99 always warn)",
+        default: 1500,
+        minimum: 100,
+        maximum: 5000,
+      },
+      visibilityWarning: {
+        type: "number",
+        title: "Visibility Warning (nm)",
+        description: "Warn when visibility drops below this distance",
+        default: 1,
+        minimum: 0.1,
+        maximum: 10,
+      },
+      enableForecastPersistence: {
+        type: "boolean",
+        title: "Persist Forecasts",
+        description:
+          "Store each successful fetch in the plugin data directory and republish it on restart or when offline",
+        default: true,
+      },
+      staleForecastHours: {
+        type: "number",
+        title: "Stale Forecast Age (hours)",
+        description:
+          "Forecasts older than this are flagged as stale in the SignalK tree and Weather API",
+        default: 6,
+        minimum: 1,
+        maximum: 240,
+      },
+      requestsPerMinute: {
+        type: "number",
+        title: "Request Quota per Minute",
+        description:
+          "Maximum Open-Meteo requests per minute (free tier: 600). Requests wait for the next minute when used up.",
+        default: 600,
+        minimum: 1,
+        maximum: 10000,
+      },
+      requestsPerHour: {
+        type: "number",
+        title: "Request Quota per Hour",
+        description: "Maximum Open-Meteo requests per hour (free tier: 5000)",
+        default: 5000,
+        minimum: 1,
+        maximum: 100000,
+      },
+      requestsPerDay: {
+        type: "number",
+        title: "Request Quota per Day",
+        description:
+          "Maximum Open-Meteo requests per day (free tier: 10000). Moving forecasts are coarsened to every 3rd hour when the budget is tight.",
+        default: 10000,
+        minimum: 1,
+        maximum: 1000000,
+      },
+      maxRetries: {
+        type: "number",
+        title: "Request Retries",
+        description:
+          "Retries for requests that fail with a network error, timeout or server error",
+        default: 3,
+        minimum: 0,
+        maximum: 10,
+      },
+      retryBaseDelay: {
+        type: "number",
+        title: "Retry Base Delay (seconds)",
+        description: "Delay before the first retry, doubled for each further retry (with jitter)",
+        default: 2,
+        minimum: 0.5,
+        maximum: 60,
+      },
+      requestTimeout: {
+        type: "number",
+        title: "Request Timeout (seconds)",
+        description: "Abandon an Open-Meteo request that takes longer than this",
+        default: 30,
+        minimum: 5,
+        maximum: 300,
+      },
+      circuitBreakerThreshold: {
+        type: "number",
+        title: "Circuit Breaker Threshold",
+        description:
+          "Consecutive failed requests (after retries) before further requests are short-circuited",
+        default: 5,
+        minimum: 1,
+        maximum: 100,
+      },
+      circuitBreakerCooldown: {
+        type: "number",
+        title: "Circuit Breaker Cooldown (minutes)",
+        description: "How long requests are short-circuited before Open-Meteo is tried again",
+        default: 10,
+        minimum: 1,
+        maximum: 1440,
+      },
     },
   };
 
+  // Log an error and remember it for the plugin status endpoint
+  const reportError = (message: string): void => {
+    app.error(message);
+    state.lastError = { message, time: new Date().toISOString() };
+  };
+
   // Utility functions
   const degToRad = (degrees: number): number => degrees * (Math.PI / 180);
   const radToDeg = (radians: number): number => radians * (180 / Math.PI);
@@ -305,98 +1733,34 @@ export = function (app: SignalKApp): SignalKPlugin {
   const kmhToMs = (kmh: number): number => kmh / 3.6;
   const percentToRatio = (percent: number): number => percent / 100;
 
-  // Field name translation: Open-Meteo API names → SignalK-aligned names (following signalk-weatherflow convention)
-  const fieldNameMap: Record<string, string> = {
-    // Temperature fields
-    temperature_2m: "airTemperature",
-    apparent_temperature: "feelsLike",
-    dew_point_2m: "dewPoint",
-    temperature_2m_max: "airTempHigh",
-    temperature_2m_min: "airTempLow",
-    apparent_temperature_max: "feelsLikeHigh",
-    apparent_temperature_min: "feelsLikeLow",
-    sea_surface_temperature: "seaSurfaceTemperature",
-
-    // Wind fields
-    wind_speed_10m: "windAvg",
-    wind_direction_10m: "windDirection",
-    wind_gusts_10m: "windGust",
-    wind_speed_10m_max: "windAvgMax",
-    wind_gusts_10m_max: "windGustMax",
-    wind_direction_10m_dominant: "windDirectionDominant",
-
-    // Pressure fields
-    pressure_msl: "seaLevelPressure",
-    surface_pressure: "stationPressure",
-
-    // Humidity fields
-    relative_humidity_2m: "relativeHumidity",
-
-    // Precipitation fields
-    precipitation: "precip",
-    precipitation_probability: "precipProbability",
-    precipitation_sum: "precipSum",
-    precipitation_probability_max: "precipProbabilityMax",
-    precipitation_hours: "precipHours",
-    rain: "rain",
-    rain_sum: "rainSum",
-    showers: "showers",
-    showers_sum: "showersSum",
-    snowfall: "snowfall",
-    snowfall_sum: "snowfallSum",
-
-    // Cloud cover fields
-    cloud_cover: "cloudCover",
-    cloud_cover_low: "lowCloudCover",
-    cloud_cover_mid: "midCloudCover",
-    cloud_cover_high: "highCloudCover",
-
-    // Solar/UV fields
-    uv_index: "uvIndex",
-    uv_index_max: "uvIndexMax",
-    shortwave_radiation: "solarRadiation",
-    shortwave_radiation_sum: "solarRadiationSum",
-    direct_radiation: "directRadiation",
-    diffuse_radiation: "diffuseRadiation",
-    direct_normal_irradiance: "irradianceDirectNormal",
-    sunshine_duration: "sunshineDuration",
-    daylight_duration: "daylightDuration",
-
-    // Marine/Wave fields
-    wave_height: "significantWaveHeight",
-    wave_height_max: "significantWaveHeightMax",
-    wave_direction: "meanWaveDirection",
-    wave_direction_dominant: "meanWaveDirectionDominant",
-    wave_period: "meanWavePeriod",
-    wave_period_max: "meanWavePeriodMax",
-    wind_wave_height: "windWaveHeight",
-    wind_wave_height_max: "windWaveHeightMax",
-    wind_wave_direction: "windWaveDirection",
-    wind_wave_direction_dominant: "windWaveDirectionDominant",
-    wind_wave_period: "windWavePeriod",
-    wind_wave_period_max: "windWavePeriodMax",
-    wind_wave_peak_period: "windWavePeakPeriod",
-    wind_wave_peak_period_max: "windWavePeakPeriodMax",
-    swell_wave_height: "swellSignificantHeight",
-    swell_wave_height_max: "swellSignificantHeightMax",
-    swell_wave_direction: "swellMeanDirection",
-    swell_wave_direction_dominant: "swellMeanDirectionDominant",
-    swell_wave_period: "swellMeanPeriod",
-    swell_wave_period_max: "swellMeanPeriodMax",
-    swell_wave_peak_period: "swellPeakPeriod",
-    swell_wave_peak_period_max: "swellPeakPeriodMax",
-    ocean_current_velocity: "currentVelocity",
-    ocean_current_direction: "currentDirection",
-
-    // Other fields
-    visibility: "visibility",
-    is_day: "isDaylight",
-    weather_code: "weatherCode",
-    cape: "cape",
-    sunrise: "sunrise",
-    sunset: "sunset",
+  // Unit conversions referenced by the variable catalogue
+  const UNIT_CONVERSIONS: Record<VariableConversion, (value: number) => number> = {
+    celsiusToKelvin,
+    degToRad,
+    mmToM,
+    cmToM,
+    hPaToPa: hPaToPA,
+    kPaToPa: (kPa: number) => kPa * 1000,
+    percentToRatio,
+    kmhToMs,
+    microgramsToKilograms: (ug: number) => ug / 1e9,
+  };
+
+  const variablesByName: Map<string, VariableDefinition> = new Map(
+    VARIABLE_CATALOGUE.map((variable) => [variable.name, variable]),
+  );
+
+  // Convert an Open-Meteo value to SignalK base units using the variable catalogue
+  const convertVariableValue = (field: string, value: number): number => {
+    const conversion = variablesByName.get(field)?.conversion;
+    return conversion ? UNIT_CONVERSIONS[conversion](value) : value;
   };
 
+  // Field name translation: Open-Meteo API names → SignalK-aligned names (following signalk-weatherflow convention)
+  const fieldNameMap: Record<string, string> = Object.fromEntries(
+    VARIABLE_CATALOGUE.map((variable) => [variable.name, variable.signalkName]),
+  );
+
   // Translate Open-Meteo field name to SignalK-aligned name
   const translateFieldName = (openMeteoName: string): string => {
     return fieldNameMap[openMeteoName] || openMeteoName;
@@ -413,15 +1777,251 @@ export = function (app: SignalKApp): SignalKPlugin {
     {} as Record<string, string>,
   );
 
-  // Calculate future position based on current heading and speed
-  const calculateFuturePosition = (
-    currentPos: Position,
-    headingRad: number,
-    sogMps: number,
-    hoursAhead: number,
-  ): Position => {
+  const EARTH_RADIUS_M = 6371000;
+  const METERS_PER_NM = 1852;
+  const KNOTS_TO_MPS = 0.514444;
+
+  // Lower wind speed bound (m/s) of each Beaufort force, 0-12
+  const BEAUFORT_LIMITS = [0, 0.5, 1.6, 3.4, 5.5, 8.0, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7];
+
+  const beaufortLowerBound = (force: number): number =>
+    BEAUFORT_LIMITS[Math.max(0, Math.min(force, BEAUFORT_LIMITS.length - 1))];
+
+  const BEAUFORT_DESCRIPTIONS = [
+    "calm",
+    "light air",
+    "light breeze",
+    "gentle breeze",
+    "moderate breeze",
+    "fresh breeze",
+    "strong breeze",
+    "near gale",
+    "gale",
+    "strong gale",
+    "storm",
+    "violent storm",
+    "hurricane force",
+  ];
+
+  // Upper significant wave height bound (m) of each Douglas sea state, 0-9
+  const SEA_STATE_LIMITS = [0, 0.1, 0.5, 1.25, 2.5, 4, 6, 9, 14, Infinity];
+
+  const SEA_STATE_DESCRIPTIONS = [
+    "calm (glassy)",
+    "calm (rippled)",
+    "smooth",
+    "slight",
+    "moderate",
+    "rough",
+    "very rough",
+    "high",
+    "very high",
+    "phenomenal",
+  ];
+
+  // Beaufort force for a wind speed in m/s
+  const calculateBeaufortForce = (speed: number): number => {
+    const force = BEAUFORT_LIMITS.findIndex((limit) => speed < limit);
+    return force === -1 ? BEAUFORT_LIMITS.length - 1 : Math.max(0, force - 1);
+  };
+
+  // Douglas sea state for a significant wave height in m
+  const calculateSeaState = (height: number): number =>
+    SEA_STATE_LIMITS.findIndex((limit) => height <= limit);
+
+  // Wave steepness (height / deep-water wavelength) for total sea, wind sea and swell
+  const WAVE_STEEPNESS_COMPONENTS = [
+    { height: "significantWaveHeight", period: "meanWavePeriod", steepness: "waveSteepness" },
+    { height: "windWaveHeight", period: "windWavePeriod", steepness: "windWaveSteepness" },
+    { height: "swellSignificantHeight", period: "swellMeanPeriod", steepness: "swellSteepness" },
+  ];
+
+  // Lower steepness bound of each class, steepest first; waves break around 1/7
+  const WAVE_STEEPNESS_CLASSES = [
+    { limit: 1 / 10, label: "breaking risk", briefing: "risk of breaking waves" },
+    { limit: 1 / 15, label: "very steep", briefing: "very steep waves" },
+    { limit: 1 / 25, label: "steep", briefing: "steep waves" },
+    { limit: 0, label: "normal", briefing: "" },
+  ];
+
+  const GRAVITY = 9.80665;
+
+  // Steepness of each wave component, classified by the steepest one
+  const addWaveSteepnessFields = (forecast: Record<string, any>): void => {
+    let steepest = -1;
+    WAVE_STEEPNESS_COMPONENTS.forEach(({ height, period, steepness }) => {
+      const h = forecast[height];
+      const t = forecast[period];
+      if (typeof h !== "number" || typeof t !== "number" || t <= 0) return;
+      const wavelength = (GRAVITY * t * t) / (2 * Math.PI);
+      forecast[steepness] = h / wavelength;
+      steepest = Math.max(steepest, forecast[steepness]);
+    });
+
+    if (steepest >= 0) {
+      forecast.waveSteepnessClass = WAVE_STEEPNESS_CLASSES.find(
+        ({ limit }) => steepest >= limit,
+      )!.label;
+    }
+  };
+
+  // Precipitation kind of each WMO weather code; codes not listed carry no precipitation
+  const PRECIPITATION_CODE_KINDS: Record<number, PrecipitationKind> = {
+    51: "rain", // drizzle
+    53: "rain",
+    55: "rain",
+    56: "freezing rain", // freezing drizzle
+    57: "freezing rain",
+    61: "rain",
+    63: "rain",
+    65: "rain",
+    66: "freezing rain",
+    67: "freezing rain",
+    71: "snow",
+    73: "snow",
+    75: "snow",
+    77: "snow", // snow grains
+    80: "rain", // rain showers
+    81: "rain",
+    82: "rain",
+    85: "snow", // snow showers
+    86: "snow",
+    95: "thunderstorm",
+    96: "thunderstorm", // with hail
+    99: "thunderstorm",
+  };
+
+  const FREEZING_POINT_K = 273.15;
+
+  // Precipitation type from the weather code, refined with the rain, showers and snowfall
+  // amounts. Rain without a weather code to go by is freezing rain below 0 °C.
+  const determinePrecipitationType = (
+    forecast: Record<string, any>,
+  ): PrecipitationKind | undefined => {
+    const rain =
+      (forecast.rain ?? forecast.rainSum ?? 0) + (forecast.showers ?? forecast.showersSum ?? 0);
+    const snow = forecast.snowfall ?? forecast.snowfallSum ?? 0;
+    const kind = PRECIPITATION_CODE_KINDS[forecast.weatherCode];
+
+    if (kind === "thunderstorm" || kind === "freezing rain") return kind;
+    if (rain > 0 && snow > 0) return "mixed/ice";
+    if (snow > 0) return "snow";
+    if (kind) return kind;
+    if (rain > 0) {
+      const temperature = forecast.airTemperature ?? forecast.airTempHigh;
+      return typeof temperature === "number" && temperature < FREEZING_POINT_K
+        ? "freezing rain"
+        : "rain";
+    }
+    return undefined;
+  };
+
+  // Saturation vapour pressure (Pa) over water at a temperature in °C (Magnus formula)
+  const saturationVapourPressure = (celsius: number): number =>
+    611.2 * Math.exp((17.67 * celsius) / (celsius + 243.5));
+
+  // Specific gas constant of water vapour, J/(kg K)
+  const WATER_VAPOUR_GAS_CONSTANT = 461.5;
+
+  // Condensation risk by dew-point spread (K) or relative humidity, highest risk first.
+  // Hulls, hatches and sails cool below the air at night, so they reach the dew point
+  // while the spread is still a few degrees; sustained humidity above 80% grows mould.
+  const CONDENSATION_RISK_LEVELS = [
+    { spread: 1, humidity: 0.95, risk: "condensing" },
+    { spread: 3, humidity: 0.8, risk: "high" },
+    { spread: 5, humidity: 0.7, risk: "moderate" },
+  ];
+
+  // Absolute humidity, dew-point spread and condensation risk from temperature and humidity
+  const addHumidityFields = (forecast: Record<string, any>): void => {
+    const temperature = forecast.airTemperature;
+    const humidity = forecast.relativeHumidity;
+    if (typeof temperature !== "number" || typeof humidity !== "number") return;
+
+    const celsius = temperature - FREEZING_POINT_K;
+    const vapourPressure = humidity * saturationVapourPressure(celsius);
+    forecast.absoluteHumidity = vapourPressure / (WATER_VAPOUR_GAS_CONSTANT * temperature);
+
+    // Use the forecast dew point where available, otherwise invert the Magnus formula
+    let dewPoint = forecast.dewPoint;
+    if (typeof dewPoint !== "number" && vapourPressure > 0) {
+      const gamma = Math.log(vapourPressure / 611.2);
+      dewPoint = (243.5 * gamma) / (17.67 - gamma) + FREEZING_POINT_K;
+    }
+    if (typeof dewPoint !== "number") return;
+
+    const spread = Math.max(0, temperature - dewPoint);
+    forecast.dewPointSpread = spread;
+    forecast.condensationRisk =
+      CONDENSATION_RISK_LEVELS.find((level) => spread <= level.spread || humidity >= level.humidity)
+        ?.risk || "low";
+  };
+
+  // Add Beaufort force, sea state, wave steepness, precipitation type and humidity metrics
+  // to a processed record; daily records use the daily maxima and totals
+  const addClassificationFields = (forecast: Record<string, any>): void => {
+    const wind = forecast.windAvg ?? forecast.windAvgMax;
+    if (typeof wind === "number") {
+      forecast.beaufortForce = calculateBeaufortForce(wind);
+      forecast.beaufortDescription = BEAUFORT_DESCRIPTIONS[forecast.beaufortForce];
+    }
+
+    const waveHeight = forecast.significantWaveHeight ?? forecast.significantWaveHeightMax;
+    if (typeof waveHeight === "number") {
+      forecast.seaState = calculateSeaState(waveHeight);
+      forecast.seaStateDescription = SEA_STATE_DESCRIPTIONS[forecast.seaState];
+    }
+
+    addWaveSteepnessFields(forecast);
+
+    // Null when dry, so a slot that was wet in the previous fetch is cleared
+    if (typeof forecast.weatherCode === "number") {
+      forecast.precipitationType = determinePrecipitationType(forecast) ?? null;
+    }
+
+    addHumidityFields(forecast);
+  };
+
+  // WMO codes for freezing drizzle and freezing rain
+  const FREEZING_PRECIPITATION_CODES = [56, 57, 66, 67];
+
+  const WARNING_SOURCE = "Open-Meteo forecast (derived)";
+
+  // Great-circle distance between two positions in meters
+  const calculateDistance = (from: Coordinates, to: Coordinates): number => {
+    const lat1 = degToRad(from.latitude);
+    const lat2 = degToRad(to.latitude);
+    const dLat = lat2 - lat1;
+    const dLon = degToRad(to.longitude - from.longitude);
+
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    return 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  };
+
+  // Initial great-circle bearing from one position to another in radians
+  const calculateBearing = (from: Coordinates, to: Coordinates): number => {
+    const lat1 = degToRad(from.latitude);
+    const lat2 = degToRad(to.latitude);
+    const dLon = degToRad(to.longitude - from.longitude);
+
+    const y = Math.sin(dLon) * Math.cos(lat2);
+    const x =
+      Math.cos(lat1) * Math.sin(lat2) -
+      Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+    return (Math.atan2(y, x) + 2 * Math.PI) % (2 * Math.PI);
+  };
+
+  // Calculate future position based on current heading and speed
+  const calculateFuturePosition = (
+    currentPos: Coordinates,
+    headingRad: number,
+    sogMps: number,
+    hoursAhead: number,
+  ): Position => {
     const distanceMeters = sogMps * hoursAhead * 3600;
-    const earthRadius = 6371000;
+    const earthRadius = EARTH_RADIUS_M;
 
     const lat1 = degToRad(currentPos.latitude);
     const lon1 = degToRad(currentPos.longitude);
@@ -450,23 +2050,147 @@ export = function (app: SignalKApp): SignalKPlugin {
     };
   };
 
+  // Walk a route from the current position through its remaining waypoints.
+  // Returns the position reached after hoursAhead at the given speed; once the
+  // final waypoint is reached the vessel is assumed to stay there.
+  const calculateRoutePosition = (
+    currentPos: Coordinates,
+    waypoints: Coordinates[],
+    sogMps: number,
+    hoursAhead: number,
+  ): Position => {
+    let remaining = sogMps * hoursAhead * 3600;
+    let legStart: Coordinates = currentPos;
+    const timestamp = new Date(Date.now() + hoursAhead * 3600000);
+
+    for (const waypoint of waypoints) {
+      const legLength = calculateDistance(legStart, waypoint);
+      if (remaining <= legLength) {
+        const bearing = calculateBearing(legStart, waypoint);
+        const pos = calculateFuturePosition(legStart, bearing, remaining / 3600, 1);
+        return { latitude: pos.latitude, longitude: pos.longitude, timestamp };
+      }
+      remaining -= legLength;
+      legStart = waypoint;
+    }
+
+    return { latitude: legStart.latitude, longitude: legStart.longitude, timestamp };
+  };
+
   // Check if vessel is moving above threshold
   const isVesselMoving = (
     sogMps: number,
     thresholdKnots: number = 1.0,
   ): boolean => {
-    const thresholdMps = thresholdKnots * 0.514444;
+    const thresholdMps = thresholdKnots * KNOTS_TO_MPS;
     return sogMps > thresholdMps;
   };
 
-  // Build Open-Meteo Weather API URL
+  // Remaining waypoints of the active route, or the next point when the route
+  // itself could not be loaded
+  const getRemainingRouteWaypoints = (): Coordinates[] => {
+    if (state.activeRoute && state.activeRoute.waypoints.length > 0) {
+      return state.activeRoute.waypoints.slice(
+        Math.max(0, state.activeRoute.pointIndex),
+      );
+    }
+    return state.nextPoint ? [state.nextPoint] : [];
+  };
+
+  // Speed used to walk the active route (planning speed or current SOG)
+  const getRouteSpeed = (config: PluginConfig): number | null => {
+    if (config.routePlanningSpeed > 0) {
+      return config.routePlanningSpeed * KNOTS_TO_MPS;
+    }
+    if (state.currentSOG && isVesselMoving(state.currentSOG, config.movingSpeedThreshold)) {
+      return state.currentSOG;
+    }
+    return null;
+  };
+
+  // Whether the route-following projection can be used for this cycle
+  const canForecastAlongRoute = (config: PluginConfig): boolean =>
+    config.enableRouteForecast &&
+    getRemainingRouteWaypoints().length > 0 &&
+    getRouteSpeed(config) !== null;
+
+  // Whether the moving vessel (position-specific) forecast should be used
+  const shouldUseMovingForecast = (config: PluginConfig): boolean => {
+    if (!state.movingForecastEngaged || !state.currentPosition) return false;
+    if (canForecastAlongRoute(config)) return true;
+    return (
+      state.currentHeading !== null &&
+      !!state.currentSOG &&
+      isVesselMoving(state.currentSOG, config.movingSpeedThreshold)
+    );
+  };
+
+  // Predict vessel positions for each forecast hour, following the active
+  // route when available and falling back to a straight-line projection
+  const predictVesselPositions = (
+    config: PluginConfig,
+    currentPos: Position,
+  ): PredictedPosition[] => {
+    const positions: PredictedPosition[] = [];
+    const followRoute = canForecastAlongRoute(config);
+    const waypoints = getRemainingRouteWaypoints();
+    const routeSpeed = getRouteSpeed(config) || 0;
+
+    for (let hour = 0; hour < config.maxForecastHours; hour++) {
+      const pos = followRoute
+        ? calculateRoutePosition(currentPos, waypoints, routeSpeed, hour)
+        : calculateFuturePosition(
+            currentPos,
+            state.currentHeading || 0,
+            state.currentSOG || 0,
+            hour,
+          );
+      positions.push({
+        ...pos,
+        hour,
+        distanceFromCurrent: calculateDistance(currentPos, pos) / METERS_PER_NM,
+      });
+    }
+
+    return positions;
+  };
+
+  // Public and customer base URLs for each Open-Meteo endpoint
+  const OPEN_METEO_ENDPOINTS: Record<OpenMeteoEndpoint, { public: string; customer: string }> = {
+    forecast: {
+      public: "https://api.open-meteo.com/v1/forecast",
+      customer: "https://customer-api.open-meteo.com/v1/forecast",
+    },
+    marine: {
+      public: "https://marine-api.open-meteo.com/v1/marine",
+      customer: "https://customer-marine-api.open-meteo.com/v1/marine",
+    },
+    ensemble: {
+      public: "https://ensemble-api.open-meteo.com/v1/ensemble",
+      customer: "https://customer-ensemble-api.open-meteo.com/v1/ensemble",
+    },
+    airQuality: {
+      public: "https://air-quality-api.open-meteo.com/v1/air-quality",
+      customer: "https://customer-air-quality-api.open-meteo.com/v1/air-quality",
+    },
+  };
+
+  // Base URL for an endpoint: the configured override, else the public or customer host
+  const getEndpointUrl = (config: PluginConfig, endpoint: OpenMeteoEndpoint): string => {
+    const override = config.endpoints[endpoint]?.trim();
+    if (override) return override.replace(/\/+$/, "");
+    return config.apiKey
+      ? OPEN_METEO_ENDPOINTS[endpoint].customer
+      : OPEN_METEO_ENDPOINTS[endpoint].public;
+  };
+
+  // Build Open-Meteo Weather API URL (model defaults to the configured primary model)
   const buildWeatherUrl = (
     position: Position,
     config: PluginConfig,
+    model: string = config.primaryModel,
   ): string => {
-    const baseUrl = config.apiKey
-      ? `https://customer-api.open-meteo.com/v1/forecast`
-      : `https://api.open-meteo.com/v1/forecast`;
+    const baseUrl = getEndpointUrl(config, "forecast");
 
     const params = new URLSearchParams({
       latitude: position.latitude.toString(),
@@ -479,88 +2203,21 @@ export = function (app: SignalKApp): SignalKPlugin {
       params.append("apikey", config.apiKey);
     }
 
-    // Hourly weather variables
-    if (config.enableHourlyWeather) {
-      const hourlyVars = [
-        "temperature_2m",
-        "relative_humidity_2m",
-        "dew_point_2m",
-        "apparent_temperature",
-        "precipitation_probability",
-        "precipitation",
-        "rain",
-        "showers",
-        "snowfall",
-        "weather_code",
-        "pressure_msl",
-        "surface_pressure",
-        "cloud_cover",
-        "cloud_cover_low",
-        "cloud_cover_mid",
-        "cloud_cover_high",
-        "visibility",
-        "wind_speed_10m",
-        "wind_direction_10m",
-        "wind_gusts_10m",
-        "uv_index",
-        "is_day",
-        "sunshine_duration",
-        "cape",
-        "shortwave_radiation",
-        "direct_radiation",
-        "diffuse_radiation",
-        "direct_normal_irradiance",
-      ];
-      params.append("hourly", hourlyVars.join(","));
-    }
-
-    // Daily weather variables
-    if (config.enableDailyWeather) {
-      const dailyVars = [
-        "weather_code",
-        "temperature_2m_max",
-        "temperature_2m_min",
-        "apparent_temperature_max",
-        "apparent_temperature_min",
-        "sunrise",
-        "sunset",
-        "daylight_duration",
-        "sunshine_duration",
-        "uv_index_max",
-        "precipitation_sum",
-        "rain_sum",
-        "showers_sum",
-        "snowfall_sum",
-        "precipitation_hours",
-        "precipitation_probability_max",
-        "wind_speed_10m_max",
-        "wind_gusts_10m_max",
-        "wind_direction_10m_dominant",
-        "shortwave_radiation_sum",
-      ];
-      params.append("daily", dailyVars.join(","));
-    }
-
-    // Current conditions
-    if (config.enableCurrentConditions) {
-      const currentVars = [
-        "temperature_2m",
-        "relative_humidity_2m",
-        "apparent_temperature",
-        "is_day",
-        "precipitation",
-        "rain",
-        "showers",
-        "snowfall",
-        "weather_code",
-        "cloud_cover",
-        "pressure_msl",
-        "surface_pressure",
-        "wind_speed_10m",
-        "wind_direction_10m",
-        "wind_gusts_10m",
-      ];
-      params.append("current", currentVars.join(","));
+    if (model && model !== "best_match") {
+      params.append("models", model);
+    }
+
+    // Variables selected per package in the plugin configuration
+    if (config.enableHourlyWeather && config.variables.hourly.length > 0) {
+      params.append("hourly", config.variables.hourly.join(","));
+    }
+
+    if (config.enableDailyWeather && config.variables.daily.length > 0) {
+      params.append("daily", config.variables.daily.join(","));
+    }
+
+    if (config.enableCurrentConditions && config.variables.current.length > 0) {
+      params.append("current", config.variables.current.join(","));
     }
 
     // Request wind speed in m/s for SignalK compatibility
@@ -574,9 +2231,7 @@ export = function (app: SignalKApp): SignalKPlugin {
     position: Position,
     config: PluginConfig,
   ): string => {
-    const baseUrl = config.apiKey
-      ? `https://customer-marine-api.open-meteo.com/v1/marine`
-      : `https://marine-api.open-meteo.com/v1/marine`;
+    const baseUrl = getEndpointUrl(config, "marine");
 
     const params = new URLSearchParams({
       latitude: position.latitude.toString(),
@@ -589,65 +2244,480 @@ export = function (app: SignalKApp): SignalKPlugin {
       params.append("apikey", config.apiKey);
     }
 
-    // Hourly marine variables
-    if (config.enableMarineHourly) {
-      const hourlyVars = [
-        "wave_height",
-        "wave_direction",
-        "wave_period",
-        "wind_wave_height",
-        "wind_wave_direction",
-        "wind_wave_period",
-        "wind_wave_peak_period",
-        "swell_wave_height",
-        "swell_wave_direction",
-        "swell_wave_period",
-        "swell_wave_peak_period",
-        "ocean_current_velocity",
-        "ocean_current_direction",
-        "sea_surface_temperature",
-      ];
-      params.append("hourly", hourlyVars.join(","));
-    }
-
-    // Daily marine variables
-    if (config.enableMarineDaily) {
-      const dailyVars = [
-        "wave_height_max",
-        "wave_direction_dominant",
-        "wave_period_max",
-        "wind_wave_height_max",
-        "wind_wave_direction_dominant",
-        "wind_wave_period_max",
-        "wind_wave_peak_period_max",
-        "swell_wave_height_max",
-        "swell_wave_direction_dominant",
-        "swell_wave_period_max",
-        "swell_wave_peak_period_max",
-      ];
-      params.append("daily", dailyVars.join(","));
+    // Variables selected per package in the plugin configuration
+    if (config.enableMarineHourly && config.variables.marineHourly.length > 0) {
+      params.append("hourly", config.variables.marineHourly.join(","));
+    }
+
+    if (config.enableMarineDaily && config.variables.marineDaily.length > 0) {
+      params.append("daily", config.variables.marineDaily.join(","));
+    }
+
+    return `${baseUrl}?${params.toString()}`;
+  };
+
+  // Hourly variables fetched from the ensemble endpoint
+  const ENSEMBLE_VARIABLES = [
+    "wind_speed_10m",
+    "wind_gusts_10m",
+    "pressure_msl",
+    "precipitation",
+  ];
+
+  // Build Open-Meteo Ensemble API URL
+  const buildEnsembleUrl = (
+    position: Position,
+    config: PluginConfig,
+  ): string => {
+    const baseUrl = getEndpointUrl(config, "ensemble");
+
+    const params = new URLSearchParams({
+      latitude: position.latitude.toString(),
+      longitude: position.longitude.toString(),
+      timezone: "auto",
+      forecast_days: Math.min(config.maxForecastDays, 16).toString(),
+      models: config.ensembleModel,
+      hourly: ENSEMBLE_VARIABLES.join(","),
+      wind_speed_unit: "ms",
+    });
+
+    if (config.apiKey) {
+      params.append("apikey", config.apiKey);
     }
 
     return `${baseUrl}?${params.toString()}`;
   };
 
+  // Central request scheduler. Every Open-Meteo call goes through here so the
+  // per-minute/hour/day quotas and HTTP 429 back-off apply to all fetch paths.
+  const MAX_CONCURRENT_REQUESTS = 5;
+  const MINUTE_MS = 60 * 1000;
+  const HOUR_MS = 60 * MINUTE_MS;
+  const DAY_MS = 24 * HOUR_MS;
+  const DEFAULT_RETRY_AFTER_SECONDS = 60;
+  const requestLog: number[] = []; // start times of requests in the last 24 hours
+  const requestQueue: Array<() => void> = [];
+  let activeRequests = 0;
+
+  const getRequestQuotas = (): { minute: number; hour: number; day: number } => {
+    const config = state.currentConfig;
+    return {
+      minute: config?.requestsPerMinute || 600,
+      hour: config?.requestsPerHour || 5000,
+      day: config?.requestsPerDay || 10000,
+    };
+  };
+
+  const countRequestsSince = (since: number): number =>
+    requestLog.filter((time) => time > since).length;
+
+  const getRequestBudget = (): RequestBudget => {
+    const now = Date.now();
+    while (requestLog.length > 0 && requestLog[0] <= now - DAY_MS) {
+      requestLog.shift();
+    }
+
+    const quotas = getRequestQuotas();
+    const usedLastMinute = countRequestsSince(now - MINUTE_MS);
+    const usedLastHour = countRequestsSince(now - HOUR_MS);
+    const usedLastDay = requestLog.length;
+
+    return {
+      usedLastMinute,
+      usedLastHour,
+      usedLastDay,
+      remainingMinute: Math.max(0, quotas.minute - usedLastMinute),
+      remainingHour: Math.max(0, quotas.hour - usedLastHour),
+      remainingDay: Math.max(0, quotas.day - usedLastDay),
+      queued: requestQueue.length,
+      rateLimitedUntil:
+        state.rateLimitedUntil > now ? new Date(state.rateLimitedUntil).toISOString() : null,
+    };
+  };
+
+  // Append the remaining daily budget to a plugin status message
+  const withRequestBudget = (message: string): string =>
+    `${message} (${getRequestBudget().remainingDay} requests left today)`;
+
+  // Concurrency slots are handed directly to the next queued request on release
+  const acquireRequestSlot = async (): Promise<void> => {
+    if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+      activeRequests++;
+      return;
+    }
+    await new Promise<void>((resolve) => requestQueue.push(resolve));
+  };
+
+  const releaseRequestSlot = (): void => {
+    const next = requestQueue.shift();
+    if (next) {
+      next();
+    } else {
+      activeRequests--;
+    }
+  };
+
+  const scheduleRequest = async (
+    url: string,
+    timeoutMs = 0,
+    headers: Record<string, string> = {},
+  ): Promise<Response> => {
+    await acquireRequestSlot();
+    try {
+      // Wait for the per-minute quota; hourly and daily quotas fail fast
+      for (;;) {
+        const now = Date.now();
+        if (state.rateLimitedUntil > now) {
+          throw new Error(
+            `Rate limited by Open-Meteo until ${new Date(state.rateLimitedUntil).toISOString()}`,
+          );
+        }
+        const budget = getRequestBudget();
+        if (budget.remainingDay <= 0) {
+          throw new Error("Daily request quota exhausted");
+        }
+        if (budget.remainingHour <= 0) {
+          throw new Error("Hourly request quota exhausted");
+        }
+        if (budget.remainingMinute > 0) break;
+
+        const oldestInMinute = requestLog.find((time) => time > now - MINUTE_MS) ?? now;
+        await new Promise((resolve) =>
+          setTimeout(resolve, oldestInMinute + MINUTE_MS - now + 50),
+        );
+      }
+
+      requestLog.push(Date.now());
+      const response = await fetch(url, { timeout: timeoutMs, headers });
+
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get("retry-after"));
+        const waitSeconds =
+          Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : DEFAULT_RETRY_AFTER_SECONDS;
+        state.rateLimitedUntil = Date.now() + waitSeconds * 1000;
+        throw new Error(`HTTP 429: rate limited by Open-Meteo for ${waitSeconds} s`);
+      }
+
+      return response;
+    } finally {
+      releaseRequestSlot();
+    }
+  };
+
+  // Circuit breaker bookkeeping. Any response from Open-Meteo closes the breaker;
+  // a request that still fails after its retries counts towards opening it.
+  const recordRequestSuccess = (): void => {
+    if (state.degradedSince) {
+      app.debug(
+        `Open-Meteo reachable again after being degraded since ${new Date(state.degradedSince).toISOString()}`,
+      );
+    }
+    state.consecutiveFailures = 0;
+    state.degradedSince = null;
+    state.circuitOpenUntil = 0;
+  };
+
+  const recordRequestFailure = (config: PluginConfig): void => {
+    state.consecutiveFailures++;
+    if (!state.degradedSince) {
+      state.degradedSince = Date.now();
+    }
+    if (state.consecutiveFailures >= config.circuitBreakerThreshold) {
+      state.circuitOpenUntil = Date.now() + config.circuitBreakerCooldown * 60000;
+      app.debug(
+        `Circuit breaker open for ${config.circuitBreakerCooldown} minutes after ${state.consecutiveFailures} consecutive failures`,
+      );
+    }
+  };
+
+  // Plugin status while Open-Meteo requests keep failing
+  const setDegradedStatus = (): void => {
+    if (!state.degradedSince) return;
+
+    const circuit =
+      state.circuitOpenUntil > Date.now()
+        ? `, circuit breaker open until ${new Date(state.circuitOpenUntil).toISOString()}`
+        : "";
+    const cached =
+      state.forecastFromCache && state.forecastSnapshot
+        ? `, serving cached forecast from ${state.forecastSnapshot.fetchedAt}`
+        : "";
+    app.setPluginStatus(
+      `Degraded since ${new Date(state.degradedSince).toISOString()} - ${state.consecutiveFailures} consecutive failed requests${circuit}${cached}`,
+    );
+  };
+
+  // Custom headers from the plugin configuration, skipping incomplete entries
+  const getRequestHeaders = (config: PluginConfig): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    config.customHeaders.forEach(({ name, value }) => {
+      if (name?.trim() && value !== undefined) {
+        headers[name.trim()] = value;
+      }
+    });
+    return headers;
+  };
+
+  // Recorded Open-Meteo responses loaded for replay, and replayed navigation timers
+  let recordedResponses: RecordingEntry[] = [];
+  let replayTimers: NodeJS.Timeout[] = [];
+  let recordingWrite: Promise<void> = Promise.resolve();
+
+  // Path of the record-and-replay file in the plugin data directory
+  const getRecordingFile = (config: PluginConfig): string =>
+    path.join(app.getDataDirPath(), path.basename(config.recordingFile));
+
+  // Append one entry to the recording, keeping writes in order
+  const appendRecording = (config: PluginConfig, entry: RecordingEntry): void => {
+    const file = getRecordingFile(config);
+    recordingWrite = recordingWrite
+      .then(() => fs.promises.appendFile(file, `${JSON.stringify(entry)}\n`, "utf8"))
+      .catch((error) => {
+        app.error(
+          `Failed to write recording: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+  };
+
+  // Read a recording, skipping lines that don't parse
+  const loadRecording = async (config: PluginConfig): Promise<RecordingEntry[]> => {
+    try {
+      const content = await fs.promises.readFile(getRecordingFile(config), "utf8");
+      return content.split("\n").reduce((entries: RecordingEntry[], line) => {
+        if (!line.trim()) return entries;
+        try {
+          entries.push(JSON.parse(line) as RecordingEntry);
+        } catch (error) {
+          app.debug(
+            `Skipping unreadable recording line: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+        return entries;
+      }, []);
+    } catch (error) {
+      app.error(
+        `Failed to load recording: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+  };
+
+  // Request URL without the API key, so recordings can be shared in bug reports
+  const redactRecordedUrl = (url: string): string => {
+    const parsed = new URL(url);
+    parsed.searchParams.delete("apikey");
+    return parsed.toString();
+  };
+
+  // Recorded responses match on endpoint path and request parameters other than position
+  const getRecordingKey = (url: URL): string => {
+    const params = Array.from(url.searchParams.entries())
+      .filter(([name]) => !["latitude", "longitude", "apikey"].includes(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+  };
+
+  // Shift a recorded local time ("2026-10-19T14:00") or date by whole hours
+  const RECORDED_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+  const shiftRecordedTime = (value: string, shiftHours: number): string => {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const hasTime = value.includes("T");
+    const date = new Date(hasTime ? value : `${value}T00:00`);
+    if (hasTime) {
+      date.setHours(date.getHours() + shiftHours);
+    } else {
+      date.setDate(date.getDate() + Math.round(shiftHours / 24));
+    }
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    return hasTime ? `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+  };
+
+  // Move every time in a recorded response forward so the recording plays as a fresh forecast
+  const shiftRecordedResponse = (body: Record<string, any>, shiftHours: number): Record<string, any> => {
+    const shiftValue = (value: any): any => {
+      if (typeof value === "string" && RECORDED_TIME_PATTERN.test(value)) {
+        return shiftRecordedTime(value, shiftHours);
+      }
+      return Array.isArray(value) ? value.map(shiftValue) : value;
+    };
+
+    return Object.fromEntries(
+      Object.entries(body).map(([block, values]) => [
+        block,
+        values && typeof values === "object" && !Array.isArray(values) && "time" in values
+          ? Object.fromEntries(
+              Object.entries(values).map(([field, value]) => [field, shiftValue(value)]),
+            )
+          : values,
+      ]),
+    );
+  };
+
+  // Serve a request from the recording, using the recorded position nearest the requested one
+  const replayRecordedResponse = (url: string): Response => {
+    const requested = new URL(url);
+    const key = getRecordingKey(requested);
+    const position = {
+      latitude: Number(requested.searchParams.get("latitude")),
+      longitude: Number(requested.searchParams.get("longitude")),
+    };
+
+    let best: RecordingEntry | null = null;
+    let bestDistance = Infinity;
+    recordedResponses.forEach((entry) => {
+      const recorded = new URL(entry.url || "");
+      if (getRecordingKey(recorded) !== key) return;
+      const distance = calculateDistance(position, {
+        latitude: Number(recorded.searchParams.get("latitude")),
+        longitude: Number(recorded.searchParams.get("longitude")),
+      });
+      // Later recordings win ties so the newest response for a position is replayed
+      if (distance <= bestDistance) {
+        best = entry;
+        bestDistance = distance;
+      }
+    });
+
+    if (!best) {
+      throw new Error(`No recorded response for ${requested.pathname}`);
+    }
+
+    const entry: RecordingEntry = best;
+    const shiftHours = Math.round((Date.now() - Date.parse(entry.time)) / HOUR_MS);
+    const body = shiftRecordedResponse(JSON.parse(entry.body || "{}"), shiftHours);
+    app.debug(
+      `Replaying ${requested.pathname} recorded ${(bestDistance / 1852).toFixed(1)} nm away at ${entry.time}`,
+    );
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+
+  // Network errors, timeouts and server errors are worth retrying; other HTTP errors are not
+  const isRetryableStatus = (status: number): boolean => status === 408 || status >= 500;
+
+  // Fetch through the request scheduler with a timeout, retrying transient failures
+  // with exponential backoff and jitter
+  const fetchWithRetry = async (url: string, config: PluginConfig): Promise<Response> => {
+    if (config.recordingMode === "replay") {
+      return replayRecordedResponse(url);
+    }
+
+    if (state.circuitOpenUntil > Date.now()) {
+      throw new Error(
+        `Circuit breaker open until ${new Date(state.circuitOpenUntil).toISOString()} after ${state.consecutiveFailures} consecutive failures`,
+      );
+    }
+
+    let lastError: Error = new Error("Request not attempted");
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delayMs =
+          config.retryBaseDelay * 1000 * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+        app.debug(
+          `Retrying in ${(delayMs / 1000).toFixed(1)} s (attempt ${attempt + 1} of ${config.maxRetries + 1}): ${lastError.message}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+
+      try {
+        const response = await scheduleRequest(
+          url,
+          config.requestTimeout * 1000,
+          getRequestHeaders(config),
+        );
+        if (!isRetryableStatus(response.status)) {
+          recordRequestSuccess();
+          if (config.recordingMode === "record" && response.ok) {
+            // Read the body once: a node-fetch clone stalls on bodies over its 16 KB buffer
+            const body = await response.text();
+            appendRecording(config, {
+              time: new Date().toISOString(),
+              type: "response",
+              url: redactRecordedUrl(url),
+              body,
+            });
+            return new Response(body, { status: response.status, headers: response.headers });
+          }
+          return response;
+        }
+        lastError = new Error(`HTTP ${response.status}: ${await response.text()}`);
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        // Quota and rate-limit errors won't clear up within the retry window,
+        // and say nothing about whether Open-Meteo is reachable
+        const budget = getRequestBudget();
+        if (
+          state.rateLimitedUntil > Date.now() ||
+          budget.remainingHour <= 0 ||
+          budget.remainingDay <= 0
+        ) {
+          throw lastError;
+        }
+      }
+    }
+
+    recordRequestFailure(config);
+    throw lastError;
+  };
+
+  // Pick a moving forecast resolution that fits the request budget: every hour,
+  // every 3rd hour, or null when even the coarse forecast does not fit
+  const MOVING_FORECAST_COARSE_STEP = 3;
+  const planMovingForecastStep = (
+    config: PluginConfig,
+    hourCount: number,
+  ): number | null => {
+    const budget = getRequestBudget();
+    const requestsPerPosition =
+      config.enableMarineHourly || config.enableMarineDaily ? 2 : 1;
+    const fixedRequests =
+      (config.enableHourlyWeather ? config.models.length : 0) +
+      (config.enableEnsemble ? 1 : 0) +
+      (config.enableAirQuality ? 1 : 0) +
+      config.solarArrays.length;
+
+    // Spread the daily quota evenly over the fetch cycles in a day
+    const cyclesPerDay = Math.max(1, 1440 / config.forecastInterval);
+    const available = Math.min(
+      Math.floor(config.requestsPerDay / cyclesPerDay),
+      budget.remainingHour,
+      budget.remainingDay,
+    );
+
+    const costAt = (step: number): number =>
+      Math.ceil(hourCount / step) * requestsPerPosition + fixedRequests;
+
+    if (costAt(1) <= available) return 1;
+    if (costAt(MOVING_FORECAST_COARSE_STEP) <= available) {
+      app.debug(
+        `Request budget tight (${available} available, ${costAt(1)} needed), coarsening moving forecast to every ${MOVING_FORECAST_COARSE_STEP} hours`,
+      );
+      return MOVING_FORECAST_COARSE_STEP;
+    }
+    return null;
+  };
+
   // Fetch weather data from Open-Meteo
   const fetchWeatherData = async (
     position: Position,
     config: PluginConfig,
+    model?: string,
   ): Promise<OpenMeteoWeatherResponse | null> => {
-    const url = buildWeatherUrl(position, config);
+    const url = buildWeatherUrl(position, config, model);
     app.debug(`Fetching weather from: ${url}`);
 
     try {
-      const response = await fetch(url);
+      const response = await fetchWithRetry(url, config);
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`HTTP ${response.status}: ${errorText}`);
       }
       return (await response.json()) as OpenMeteoWeatherResponse;
     } catch (error) {
-      app.error(
+      reportError(
         `Failed to fetch weather data: ${error instanceof Error ? error.message : String(error)}`,
       );
       return null;
@@ -663,357 +2733,282 @@ export = function (app: SignalKApp): SignalKPlugin {
     app.debug(`Fetching marine data from: ${url}`);
 
     try {
-      const response = await fetch(url);
+      const response = await fetchWithRetry(url, config);
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`HTTP ${response.status}: ${errorText}`);
       }
       return (await response.json()) as OpenMeteoMarineResponse;
     } catch (error) {
-      app.error(
+      reportError(
         `Failed to fetch marine data: ${error instanceof Error ? error.message : String(error)}`,
       );
       return null;
     }
   };
 
-  // Get source label for SignalK (following weatherflow/meteo pattern)
-  const getSourceLabel = (packageType: string): string => {
-    return `openmeteo-${packageType}-api`;
+  // Build Open-Meteo Forecast API URL for the tilted irradiance on one panel array.
+  // Open-Meteo azimuth is 0 = south, -90 = east, 90 = west; the config uses compass bearings.
+  const buildSolarUrl = (
+    position: Position,
+    config: PluginConfig,
+    array: SolarArray,
+  ): string => {
+    const baseUrl = getEndpointUrl(config, "forecast");
+    const azimuth = ((((array.azimuth - 180) % 360) + 540) % 360) - 180;
+
+    const params = new URLSearchParams({
+      latitude: position.latitude.toString(),
+      longitude: position.longitude.toString(),
+      timezone: "auto",
+      forecast_days: Math.min(config.maxForecastDays, 16).toString(),
+      hourly: "global_tilted_irradiance",
+      tilt: array.tilt.toString(),
+      azimuth: azimuth.toString(),
+    });
+
+    if (config.apiKey) {
+      params.append("apikey", config.apiKey);
+    }
+
+    if (config.primaryModel && config.primaryModel !== "best_match") {
+      params.append("models", config.primaryModel);
+    }
+
+    return `${baseUrl}?${params.toString()}`;
   };
 
-  // Get parameter metadata for SignalK (using SignalK-aligned field names)
-  const getParameterMetadata = (parameterName: string): any => {
-    const metadataMap: Record<string, any> = {
-      // Temperature parameters (SignalK compliant - Kelvin)
-      airTemperature: {
-        units: "K",
-        displayName: "Temperature",
-        description: "Air temperature at 2m height",
-      },
-      feelsLike: {
-        units: "K",
-        displayName: "Feels Like Temperature",
-        description: "Apparent temperature considering wind and humidity",
-      },
-      dewPoint: {
-        units: "K",
-        displayName: "Dew Point",
-        description: "Dew point temperature at 2m height",
-      },
-      seaSurfaceTemperature: {
-        units: "K",
-        displayName: "Sea Surface Temperature",
-        description: "Sea surface temperature",
-      },
-      airTempHigh: {
-        units: "K",
-        displayName: "High Temperature",
-        description: "Maximum air temperature",
-      },
-      airTempLow: {
-        units: "K",
-        displayName: "Low Temperature",
-        description: "Minimum air temperature",
-      },
-      feelsLikeHigh: {
-        units: "K",
-        displayName: "Feels Like High",
-        description: "Maximum apparent temperature",
-      },
-      feelsLikeLow: {
-        units: "K",
-        displayName: "Feels Like Low",
-        description: "Minimum apparent temperature",
-      },
+  // Fetch tilted irradiance for one panel array from Open-Meteo
+  const fetchSolarData = async (
+    position: Position,
+    config: PluginConfig,
+    array: SolarArray,
+  ): Promise<OpenMeteoWeatherResponse | null> => {
+    const url = buildSolarUrl(position, config, array);
+    app.debug(`Fetching solar irradiance for array ${array.name} from: ${url}`);
 
-      // Wind parameters (SignalK compliant - m/s, radians)
-      windAvg: {
-        units: "m/s",
-        displayName: "Wind Speed",
-        description: "Wind speed at 10m height",
-      },
-      windGust: {
-        units: "m/s",
-        displayName: "Wind Gusts",
-        description: "Wind gust speed at 10m height",
-      },
-      windDirection: {
-        units: "rad",
-        displayName: "Wind Direction",
-        description: "Wind direction at 10m height",
-      },
-      windAvgMax: {
-        units: "m/s",
-        displayName: "Max Wind Speed",
-        description: "Maximum wind speed",
-      },
-      windGustMax: {
-        units: "m/s",
-        displayName: "Max Wind Gusts",
-        description: "Maximum wind gust speed",
-      },
-      windDirectionDominant: {
-        units: "rad",
-        displayName: "Dominant Wind Direction",
-        description: "Dominant wind direction",
-      },
+    try {
+      const response = await fetchWithRetry(url, config);
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+      return (await response.json()) as OpenMeteoWeatherResponse;
+    } catch (error) {
+      reportError(
+        `Failed to fetch solar irradiance: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  };
 
-      // Pressure parameters (SignalK compliant - Pascal)
-      seaLevelPressure: {
-        units: "Pa",
-        displayName: "Sea Level Pressure",
-        description: "Atmospheric pressure at mean sea level",
-      },
-      stationPressure: {
-        units: "Pa",
-        displayName: "Surface Pressure",
-        description: "Atmospheric pressure at surface",
-      },
+  // Build Open-Meteo Air Quality API URL
+  const buildAirQualityUrl = (
+    position: Position,
+    config: PluginConfig,
+  ): string => {
+    const baseUrl = getEndpointUrl(config, "airQuality");
 
-      // Humidity (SignalK compliant - ratio 0-1)
-      relativeHumidity: {
-        units: "ratio",
-        displayName: "Relative Humidity",
-        description: "Relative humidity at 2m height (0-1)",
-      },
+    const params = new URLSearchParams({
+      latitude: position.latitude.toString(),
+      longitude: position.longitude.toString(),
+      timezone: "auto",
+      forecast_days: Math.min(config.maxForecastDays, 7).toString(), // Air Quality API max is 7 days
+      hourly: config.variables.airQuality.join(","),
+    });
 
-      // Cloud cover (SignalK compliant - ratio 0-1)
-      cloudCover: {
-        units: "ratio",
-        displayName: "Cloud Cover",
-        description: "Total cloud cover (0-1)",
-      },
-      lowCloudCover: {
-        units: "ratio",
-        displayName: "Low Cloud Cover",
-        description: "Low altitude cloud cover (0-1)",
+    if (config.apiKey) {
+      params.append("apikey", config.apiKey);
+    }
+
+    return `${baseUrl}?${params.toString()}`;
+  };
+
+  // Fetch air quality data from Open-Meteo
+  const fetchAirQualityData = async (
+    position: Position,
+    config: PluginConfig,
+  ): Promise<OpenMeteoAirQualityResponse | null> => {
+    const url = buildAirQualityUrl(position, config);
+    app.debug(`Fetching air quality from: ${url}`);
+
+    try {
+      const response = await fetchWithRetry(url, config);
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+      return (await response.json()) as OpenMeteoAirQualityResponse;
+    } catch (error) {
+      reportError(
+        `Failed to fetch air quality data: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  };
+
+  // Fetch ensemble data from Open-Meteo
+  const fetchEnsembleData = async (
+    position: Position,
+    config: PluginConfig,
+  ): Promise<OpenMeteoEnsembleResponse | null> => {
+    const url = buildEnsembleUrl(position, config);
+    app.debug(`Fetching ensemble data from: ${url}`);
+
+    try {
+      const response = await fetchWithRetry(url, config);
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+      return (await response.json()) as OpenMeteoEnsembleResponse;
+    } catch (error) {
+      reportError(
+        `Failed to fetch ensemble data: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  };
+
+  // Get source label for SignalK (following weatherflow/meteo pattern)
+  const getSourceLabel = (packageType: string): string => {
+    return `openmeteo-${packageType}-api`;
+  };
+
+  // Get parameter metadata for SignalK (using SignalK-aligned field names)
+  const getParameterMetadata = (parameterName: string): any => {
+    // Derived and plugin state fields; forecast variables come from the variable catalogue
+    const metadataMap: Record<string, any> = {
+      // Derived pressure tendency
+      pressureTendency: {
+        displayName: "Pressure Tendency",
+        description:
+          "Barometric tendency over the previous 3 hours (steady, increasing, decreasing)",
       },
-      midCloudCover: {
-        units: "ratio",
-        displayName: "Mid Cloud Cover",
-        description: "Mid altitude cloud cover (0-1)",
+      pressureTendencyDescription: {
+        displayName: "Pressure Tendency Description",
+        description:
+          "Barometric tendency in forecast terms (e.g. falling slowly, rising quickly)",
       },
-      highCloudCover: {
-        units: "ratio",
-        displayName: "High Cloud Cover",
-        description: "High altitude cloud cover (0-1)",
+      pressureChange3h: {
+        units: "Pa",
+        displayName: "3-Hour Pressure Change",
+        description: "Change in sea level pressure over the previous 3 hours",
       },
 
-      // Precipitation (SignalK compliant - meters)
-      precip: {
-        units: "m",
-        displayName: "Precipitation",
-        description: "Precipitation amount",
-      },
-      rain: {
-        units: "m",
-        displayName: "Rain",
-        description: "Rain amount",
+      // Beaufort force and Douglas sea state
+      beaufortForce: {
+        displayName: "Beaufort Force",
+        description: "Beaufort wind force (0-12) from the 10 m wind speed",
       },
-      snowfall: {
-        units: "m",
-        displayName: "Snowfall",
-        description: "Snowfall amount",
+      beaufortDescription: {
+        displayName: "Beaufort Description",
+        description: "Beaufort wind force in words (e.g. fresh breeze, gale)",
       },
-      precipProbability: {
-        units: "ratio",
-        displayName: "Precipitation Probability",
-        description: "Probability of precipitation (0-1)",
-      },
-      precipSum: {
-        units: "m",
-        displayName: "Precipitation Sum",
-        description: "Total precipitation amount",
+      seaState: {
+        displayName: "Sea State",
+        description: "Douglas sea state (0-9) from the significant wave height",
       },
-      precipProbabilityMax: {
-        units: "ratio",
-        displayName: "Max Precipitation Probability",
-        description: "Maximum probability of precipitation (0-1)",
+      seaStateDescription: {
+        displayName: "Sea State Description",
+        description: "Douglas sea state in words (e.g. slight, rough)",
       },
 
-      // Visibility (SignalK compliant - meters)
-      visibility: {
-        units: "m",
-        displayName: "Visibility",
-        description: "Horizontal visibility",
+      // Precipitation type
+      precipitationType: {
+        displayName: "Precipitation Type",
+        description:
+          "Rain, thunderstorm, freezing rain, mixed/ice or snow, from the weather code and precipitation amounts",
       },
 
-      // Wave parameters (meters, seconds, radians)
-      significantWaveHeight: {
-        units: "m",
-        displayName: "Wave Height",
-        description: "Significant wave height",
+      // Humidity metrics
+      absoluteHumidity: {
+        units: "kg/m3",
+        displayName: "Absolute Humidity",
+        description: "Mass of water vapour per volume of air at 2m height",
       },
-      significantWaveHeightMax: {
-        units: "m",
-        displayName: "Max Wave Height",
-        description: "Maximum significant wave height",
-      },
-      meanWavePeriod: {
-        units: "s",
-        displayName: "Wave Period",
-        description: "Mean wave period",
-      },
-      meanWavePeriodMax: {
-        units: "s",
-        displayName: "Max Wave Period",
-        description: "Maximum wave period",
-      },
-      meanWaveDirection: {
-        units: "rad",
-        displayName: "Wave Direction",
-        description: "Mean wave direction",
-      },
-      meanWaveDirectionDominant: {
-        units: "rad",
-        displayName: "Dominant Wave Direction",
-        description: "Dominant wave direction",
-      },
-      windWaveHeight: {
-        units: "m",
-        displayName: "Wind Wave Height",
-        description: "Wind-generated wave height",
-      },
-      windWaveHeightMax: {
-        units: "m",
-        displayName: "Max Wind Wave Height",
-        description: "Maximum wind-generated wave height",
+      dewPointSpread: {
+        units: "K",
+        displayName: "Dew Point Spread",
+        description: "Air temperature minus dew point; condensation forms on surfaces as it nears zero",
       },
-      windWavePeriod: {
-        units: "s",
-        displayName: "Wind Wave Period",
-        description: "Wind-generated wave period",
+      condensationRisk: {
+        displayName: "Condensation Risk",
+        description:
+          "Risk of condensation and mould on board from dew point spread and humidity (low, moderate, high, condensing)",
       },
-      windWaveDirection: {
-        units: "rad",
-        displayName: "Wind Wave Direction",
-        description: "Wind-generated wave direction",
+
+      // Wave steepness
+      waveSteepness: {
+        units: "ratio",
+        displayName: "Wave Steepness",
+        description: "Significant wave height divided by the deep-water wavelength of the mean period",
       },
-      windWaveDirectionDominant: {
-        units: "rad",
-        displayName: "Dominant Wind Wave Direction",
-        description: "Dominant wind-generated wave direction",
-      },
-      windWavePeakPeriod: {
-        units: "s",
-        displayName: "Wind Wave Peak Period",
-        description: "Peak period of wind-generated waves",
-      },
-      swellSignificantHeight: {
-        units: "m",
-        displayName: "Swell Height",
-        description: "Swell wave height",
-      },
-      swellSignificantHeightMax: {
-        units: "m",
-        displayName: "Max Swell Height",
-        description: "Maximum swell wave height",
-      },
-      swellMeanPeriod: {
-        units: "s",
-        displayName: "Swell Period",
-        description: "Swell wave period",
-      },
-      swellMeanPeriodMax: {
-        units: "s",
-        displayName: "Max Swell Period",
-        description: "Maximum swell wave period",
-      },
-      swellMeanDirection: {
-        units: "rad",
-        displayName: "Swell Direction",
-        description: "Swell wave direction",
+      windWaveSteepness: {
+        units: "ratio",
+        displayName: "Wind Wave Steepness",
+        description: "Wind wave height divided by the deep-water wavelength of the wind wave period",
       },
-      swellMeanDirectionDominant: {
-        units: "rad",
-        displayName: "Dominant Swell Direction",
-        description: "Dominant swell wave direction",
+      swellSteepness: {
+        units: "ratio",
+        displayName: "Swell Steepness",
+        description: "Swell height divided by the deep-water wavelength of the swell period",
       },
-      swellPeakPeriod: {
-        units: "s",
-        displayName: "Swell Peak Period",
-        description: "Peak period of swell waves",
+      waveSteepnessClass: {
+        displayName: "Wave Steepness Class",
+        description: "Steepest wave component classified as normal, steep, very steep or breaking risk",
       },
 
-      // Ocean currents
-      currentVelocity: {
+      // Wind profile interpolated to the masthead
+      windAvgMasthead: {
         units: "m/s",
-        displayName: "Current Speed",
-        description: "Ocean current velocity",
+        displayName: "Masthead Wind Speed",
+        description: "Wind speed interpolated to the configured masthead height",
       },
-      currentDirection: {
+      windDirectionMasthead: {
         units: "rad",
-        displayName: "Current Direction",
-        description: "Ocean current direction",
-      },
-
-      // Solar radiation
-      solarRadiation: {
-        units: "W/m2",
-        displayName: "Solar Radiation",
-        description: "Shortwave solar radiation",
+        displayName: "Masthead Wind Direction",
+        description: "Wind direction interpolated to the configured masthead height",
       },
-      solarRadiationSum: {
-        units: "J/m2",
-        displayName: "Total Solar Radiation",
-        description: "Total shortwave solar radiation",
-      },
-      directRadiation: {
-        units: "W/m2",
-        displayName: "Direct Radiation",
-        description: "Direct solar radiation",
-      },
-      diffuseRadiation: {
-        units: "W/m2",
-        displayName: "Diffuse Radiation",
-        description: "Diffuse solar radiation",
-      },
-      irradianceDirectNormal: {
-        units: "W/m2",
-        displayName: "Direct Normal Irradiance",
-        description: "Direct normal solar irradiance",
+      windShearExponent: {
+        displayName: "Wind Shear Exponent",
+        description: "Power-law exponent of the wind profile around the masthead height",
       },
 
-      // Other
-      uvIndex: {
-        displayName: "UV Index",
-        description: "UV index",
-      },
-      uvIndexMax: {
-        displayName: "Max UV Index",
-        description: "Maximum UV index",
+      // Ensemble spread
+      ensembleMembers: {
+        displayName: "Ensemble Members",
+        description: "Number of ensemble members in the spread statistics",
       },
-      weatherCode: {
-        displayName: "Weather Code",
-        description: "WMO weather interpretation code",
+
+      // Plugin state and freshness
+      observationTime: {
+        displayName: "Observation Time",
+        description: "Time of the current conditions snapshot",
       },
-      isDaylight: {
-        displayName: "Is Daylight",
-        description: "Whether it is day (1) or night (0)",
+      movingForecast: {
+        displayName: "Moving Forecast",
+        description: "Whether position-specific moving forecast mode is engaged (PUT to change)",
       },
-      sunshineDuration: {
-        units: "s",
-        displayName: "Sunshine Duration",
-        description: "Duration of sunshine",
+      movingForecastMode: {
+        displayName: "Moving Forecast Mode",
+        description: "auto when engaged by the speed threshold, manual when set by PUT",
       },
-      daylightDuration: {
-        units: "s",
-        displayName: "Daylight Duration",
-        description: "Duration of daylight",
+      forecastEnabled: {
+        displayName: "Forecast Fetching Enabled",
+        description: "Whether scheduled forecast fetching is running (PUT to pause or resume)",
       },
-      cape: {
-        units: "J/kg",
-        displayName: "CAPE",
-        description: "Convective Available Potential Energy",
+      fetchedAt: {
+        displayName: "Forecast Fetched At",
+        description: "Time of the last successful Open-Meteo fetch",
       },
-      sunrise: {
-        displayName: "Sunrise",
-        description: "Sunrise time",
+      stale: {
+        displayName: "Forecast Stale",
+        description: "Whether the forecast is older than the configured stale age",
       },
-      sunset: {
-        displayName: "Sunset",
-        description: "Sunset time",
+      fromCache: {
+        displayName: "Forecast From Cache",
+        description: "Whether the forecast is being served from the offline cache",
       },
     };
 
@@ -1021,6 +3016,38 @@ export = function (app: SignalKApp): SignalKPlugin {
       return metadataMap[parameterName];
     }
 
+    const variable = VARIABLE_CATALOGUE.find((v) => v.signalkName === parameterName);
+    if (variable) {
+      const { units, displayName, description } = variable;
+      return units ? { units, displayName, description } : { displayName, description };
+    }
+
+    // Ensemble spread statistics derive their metadata from the base parameter
+    const ensembleMatch = parameterName.match(/^(.+)Ensemble(Min|P10|Median|P90|Max)$/);
+    if (ensembleMatch) {
+      const base = getParameterMetadata(ensembleMatch[1]);
+      const stat = ENSEMBLE_STATS.find((s) => s.suffix === ensembleMatch[2])!;
+      return {
+        units: base.units,
+        displayName: `${base.displayName} (Ensemble ${stat.suffix})`,
+        description: `Ensemble ${stat.label} of ${base.description.charAt(0).toLowerCase()}${base.description.slice(1)}`,
+      };
+    }
+
+    // Solar power and energy, in total or per panel array (array name as suffix)
+    const solarMatch = parameterName.match(/^solar(Power|Energy)(\w*)$/);
+    if (solarMatch) {
+      const isPower = solarMatch[1] === "Power";
+      const arrayLabel = solarMatch[2] ? ` (${solarMatch[2]})` : "";
+      return {
+        units: isPower ? "W" : "J",
+        displayName: `Solar ${solarMatch[1]}${arrayLabel}`,
+        description: isPower
+          ? `Expected solar panel output${arrayLabel ? ` of array ${solarMatch[2]}` : ""} from tilted irradiance`
+          : `Expected solar energy for the day${arrayLabel ? ` from array ${solarMatch[2]}` : ""}`,
+      };
+    }
+
     // Fallback for unknown parameters
     let units = "";
     let description = `${parameterName} forecast parameter`;
@@ -1067,6 +3094,168 @@ export = function (app: SignalKApp): SignalKPlugin {
     };
   };
 
+  // Convert an Open-Meteo local time (timezone: "auto") to a UTC ISO timestamp;
+  // timestamps that already carry a zone are passed through
+  const localTimeToUtcIso = (
+    localTime: string,
+    utcOffsetSeconds: number | undefined,
+  ): string => {
+    if (/(Z|[+-]\d{2}:?\d{2})$/.test(localTime)) {
+      const zoned = Date.parse(localTime);
+      return isNaN(zoned) ? new Date().toISOString() : new Date(zoned).toISOString();
+    }
+    const asUtc = Date.parse(`${localTime}Z`);
+    if (isNaN(asUtc)) return new Date().toISOString();
+    return new Date(asUtc - (utcOffsetSeconds || 0) * 1000).toISOString();
+  };
+
+  // Process current conditions block
+  const processCurrentConditions = (
+    data: OpenMeteoWeatherResponse,
+  ): Record<string, any> | null => {
+    const current = data.current;
+    if (!current || !current.time) return null;
+
+    const conditions: Record<string, any> = {
+      timestamp: localTimeToUtcIso(current.time, data.utc_offset_seconds),
+    };
+
+    Object.entries(current).forEach(([field, value]) => {
+      if (field === "time" || field === "interval") return;
+      if (typeof value !== "number") return;
+      conditions[translateFieldName(field)] = convertVariableValue(field, value);
+    });
+
+    // Tendency comes from the hourly series at the hour containing the observation
+    const currentHour = current.time.substring(0, 13);
+    const hourIndex = data.hourly?.time.findIndex((t) => t.substring(0, 13) === currentHour);
+    if (data.hourly && hourIndex !== undefined && hourIndex !== -1) {
+      addWeatherSeriesFields(data.hourly, hourIndex, conditions);
+    }
+    addClassificationFields(conditions);
+
+    return conditions;
+  };
+
+  // Barometric tendency bands for the 3-hour change (hPa), following the WMO/Met Office
+  // characteristic of pressure tendency used in marine forecasts
+  const PRESSURE_TENDENCY_BANDS = [
+    { limit: 0.1, qualifier: "" },
+    { limit: 1.6, qualifier: " slowly" },
+    { limit: 3.6, qualifier: "" },
+    { limit: 6.1, qualifier: " quickly" },
+    { limit: Infinity, qualifier: " very rapidly" },
+  ];
+
+  // Calculate the 3-hour barometric tendency at an index of the hourly pressure series
+  const calculatePressureTendency = (
+    series: number[] | undefined,
+    index: number,
+  ): { change: number; tendency: TendencyKind; description: string } => {
+    const current = series?.[index];
+    const previous = series?.[index - 3];
+    if (typeof current !== "number" || typeof previous !== "number") {
+      return { change: NaN, tendency: "not available", description: "not available" };
+    }
+
+    const changeHPa = current - previous;
+    const magnitude = Math.abs(changeHPa);
+    if (magnitude < PRESSURE_TENDENCY_BANDS[0].limit) {
+      return { change: hPaToPA(changeHPa), tendency: "steady", description: "steady" };
+    }
+
+    const band = PRESSURE_TENDENCY_BANDS.find((b) => magnitude < b.limit)!;
+    const rising = changeHPa > 0;
+    return {
+      change: hPaToPA(changeHPa),
+      tendency: rising ? "increasing" : "decreasing",
+      description: `${rising ? "rising" : "falling"}${band.qualifier}`,
+    };
+  };
+
+  // Heights (m) of the Open-Meteo wind levels, lowest first
+  const WIND_LEVELS = [10, 80, 120, 180] as const;
+
+  // Hourly variables requested when wind and temperature aloft are enabled
+  const WIND_ALOFT_VARIABLES = WIND_LEVELS.slice(1).flatMap((level) => [
+    `wind_speed_${level}m`,
+    `wind_direction_${level}m`,
+    `temperature_${level}m`,
+  ]);
+
+  // Wind at a height interpolated from the wind levels with a power law
+  // (v2/v1 = (z2/z1)^alpha), using the nearest pair of levels outside their range
+  const interpolateWindProfile = (
+    hourly: OpenMeteoHourlyWeather,
+    dataIndex: number,
+    height: number,
+  ): { speed: number; direction?: number; shearExponent: number } | null => {
+    const levels = WIND_LEVELS.map((level) => ({
+      level: level as number,
+      speed: hourly[`wind_speed_${level}m` as const]?.[dataIndex],
+      direction: hourly[`wind_direction_${level}m` as const]?.[dataIndex],
+    })).filter(
+      (l): l is { level: number; speed: number; direction: number | undefined } =>
+        typeof l.speed === "number",
+    );
+    if (levels.length < 2) return null;
+
+    const above = levels.findIndex((l) => l.level >= height);
+    const upperIndex = above <= 0 ? (above === 0 ? 1 : levels.length - 1) : above;
+    const lower = levels[upperIndex - 1];
+    const upper = levels[upperIndex];
+    const levelRatio = Math.log(upper.level / lower.level);
+    const position = Math.log(height / lower.level) / levelRatio;
+
+    // Calm levels have no defined shear exponent; fall back to log-linear interpolation
+    let shearExponent = 0;
+    let speed: number;
+    if (lower.speed > 0 && upper.speed > 0) {
+      shearExponent = Math.log(upper.speed / lower.speed) / levelRatio;
+      speed = lower.speed * (height / lower.level) ** shearExponent;
+    } else {
+      speed = Math.max(0, lower.speed + (upper.speed - lower.speed) * position);
+    }
+
+    // Veer/back is interpolated across the shorter arc and not extrapolated
+    let direction: number | undefined;
+    if (typeof lower.direction === "number" && typeof upper.direction === "number") {
+      const turn = ((upper.direction - lower.direction + 540) % 360) - 180;
+      const fraction = Math.max(0, Math.min(1, position));
+      direction = degToRad((lower.direction + turn * fraction + 360) % 360);
+    }
+
+    return { speed, direction, shearExponent };
+  };
+
+  // Add fields derived from the hourly weather series (values around dataIndex)
+  const addWeatherSeriesFields = (
+    hourly: OpenMeteoHourlyWeather,
+    dataIndex: number,
+    forecast: Record<string, any>,
+  ): void => {
+    if (hourly.pressure_msl) {
+      const tendency = calculatePressureTendency(hourly.pressure_msl, dataIndex);
+      forecast.pressureTendency = tendency.tendency;
+      forecast.pressureTendencyDescription = tendency.description;
+      if (!isNaN(tendency.change)) {
+        forecast.pressureChange3h = tendency.change;
+      }
+    }
+
+    const mastheadHeight = state.currentConfig?.mastheadHeight || 0;
+    if (mastheadHeight > 0) {
+      const profile = interpolateWindProfile(hourly, dataIndex, mastheadHeight);
+      if (profile) {
+        forecast.windAvgMasthead = profile.speed;
+        forecast.windShearExponent = profile.shearExponent;
+        if (profile.direction !== undefined) {
+          forecast.windDirectionMasthead = profile.direction;
+        }
+      }
+    }
+  };
+
   // Process hourly weather forecast
   const processHourlyWeatherForecast = (
     data: OpenMeteoWeatherResponse,
@@ -1098,29 +3287,11 @@ export = function (app: SignalKApp): SignalKPlugin {
         if (value === undefined || value === null) return;
 
         // Translate field name to SignalK-aligned name
-        const translatedField = translateFieldName(field);
-
-        // Apply unit conversions
-        if (field.includes("temperature") || field === "dew_point_2m" || field === "apparent_temperature") {
-          forecast[translatedField] = celsiusToKelvin(value as number);
-        } else if (field.includes("direction")) {
-          forecast[translatedField] = degToRad(value as number);
-        } else if (field === "precipitation" || field === "rain" || field === "showers") {
-          forecast[translatedField] = mmToM(value as number);
-        } else if (field === "snowfall") {
-          forecast[translatedField] = cmToM(value as number); // Snowfall is in cm
-        } else if (field.includes("pressure")) {
-          forecast[translatedField] = hPaToPA(value as number);
-        } else if (field.includes("humidity") || field.includes("cloud_cover") || field === "precipitation_probability") {
-          forecast[translatedField] = percentToRatio(value as number);
-        } else if (field === "visibility") {
-          // Visibility is already in meters from Open-Meteo
-          forecast[translatedField] = value;
-        } else {
-          forecast[translatedField] = value;
-        }
+        forecast[translateFieldName(field)] = convertVariableValue(field, value);
       });
 
+      addWeatherSeriesFields(hourly, dataIndex, forecast);
+      addClassificationFields(forecast);
       forecasts.push(forecast);
     }
 
@@ -1153,31 +3324,75 @@ export = function (app: SignalKApp): SignalKPlugin {
         // Translate field name to SignalK-aligned name
         const translatedField = translateFieldName(field);
 
-        // Apply unit conversions
-        if (field.includes("temperature")) {
-          forecast[translatedField] = celsiusToKelvin(value as number);
-        } else if (field.includes("direction")) {
-          forecast[translatedField] = degToRad(value as number);
-        } else if (field === "precipitation_sum" || field === "rain_sum" || field === "showers_sum") {
-          forecast[translatedField] = mmToM(value as number);
-        } else if (field === "snowfall_sum") {
-          forecast[translatedField] = cmToM(value as number);
-        } else if (field === "precipitation_probability_max") {
-          forecast[translatedField] = percentToRatio(value as number);
-        } else {
-          forecast[translatedField] = value;
-        }
+        // Apply unit conversions (sunrise/sunset are strings)
+        forecast[translatedField] =
+          typeof value === "number" ? convertVariableValue(field, value) : value;
       });
 
+      addClassificationFields(forecast);
       forecasts.push(forecast);
     }
 
     return forecasts;
   };
 
-  // Process hourly marine forecast
-  const processHourlyMarineForecast = (
-    data: OpenMeteoMarineResponse,
+  // Extract a single converted hourly record matching the target hour
+  // Hourly times are local to the forecast position, so they are matched in UTC using its offset
+  const processHourlyAtTime = <T extends { time: string[] }>(
+    hourly: T | undefined,
+    utcOffsetSeconds: number | undefined,
+    targetTime: Date,
+    convertValue: (field: string, value: number) => number,
+    addSeriesFields?: (hourly: T, dataIndex: number, forecast: Record<string, any>) => void,
+  ): Record<string, any> | null => {
+    if (!hourly || !hourly.time) return null;
+
+    const targetHour = Math.floor(targetTime.getTime() / HOUR_MS);
+    const dataIndex = hourly.time.findIndex(
+      (t) => Math.floor(Date.parse(localTimeToUtcIso(t, utcOffsetSeconds)) / HOUR_MS) === targetHour,
+    );
+    if (dataIndex === -1) return null;
+
+    // Keep the local time, like the stationary packages, so readers apply the offset
+    const forecast: Record<string, any> = {
+      timestamp: hourly.time[dataIndex],
+    };
+
+    Object.entries(hourly).forEach(([field, values]) => {
+      if (field === "time" || !Array.isArray(values)) return;
+      const value = values[dataIndex];
+      if (typeof value !== "number") return;
+      forecast[translateFieldName(field)] = convertValue(field, value);
+    });
+
+    if (addSeriesFields) {
+      addSeriesFields(hourly, dataIndex, forecast);
+    }
+    addClassificationFields(forecast);
+
+    return forecast;
+  };
+
+  // Ensemble statistics published per variable, as <field>Ensemble<Stat>
+  const ENSEMBLE_STATS: Array<{ suffix: string; label: string; quantile: number }> = [
+    { suffix: "Min", label: "minimum", quantile: 0 },
+    { suffix: "P10", label: "10th percentile", quantile: 0.1 },
+    { suffix: "Median", label: "median", quantile: 0.5 },
+    { suffix: "P90", label: "90th percentile", quantile: 0.9 },
+    { suffix: "Max", label: "maximum", quantile: 1 },
+  ];
+
+  // Linearly interpolated quantile of sorted values
+  const quantile = (sorted: number[], q: number): number => {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  };
+
+  // Reduce ensemble members to min/p10/median/p90/max per hour
+  const processHourlyEnsembleForecast = (
+    data: OpenMeteoEnsembleResponse,
     maxHours: number,
   ): Record<string, any>[] => {
     const forecasts: Record<string, any>[] = [];
@@ -1185,11 +3400,17 @@ export = function (app: SignalKApp): SignalKPlugin {
     if (!hourly || !hourly.time) return forecasts;
 
     const now = new Date();
-    const startIndex = hourly.time.findIndex(
-      (t) => new Date(t) >= now,
-    );
+    const startIndex = hourly.time.findIndex((t) => new Date(t) >= now);
     if (startIndex === -1) return forecasts;
 
+    // Member series for each variable (control run plus <variable>_memberNN)
+    const memberSeries: Record<string, Array<Array<number | null>>> = {};
+    ENSEMBLE_VARIABLES.forEach((variable) => {
+      memberSeries[variable] = Object.entries(hourly)
+        .filter(([field]) => field === variable || field.startsWith(`${variable}_member`))
+        .map(([, values]) => values as Array<number | null>);
+    });
+
     const count = Math.min(maxHours, hourly.time.length - startIndex);
 
     for (let i = 0; i < count; i++) {
@@ -1199,26 +3420,19 @@ export = function (app: SignalKApp): SignalKPlugin {
         relativeHour: i,
       };
 
-      // Process each field with unit conversions and translate field names
-      Object.entries(hourly).forEach(([field, values]) => {
-        if (field === "time" || !Array.isArray(values)) return;
-        const value = values[dataIndex];
-        if (value === undefined || value === null) return;
-
-        // Translate field name to SignalK-aligned name
-        const translatedField = translateFieldName(field);
-
-        // Apply unit conversions
-        if (field === "sea_surface_temperature") {
-          forecast[translatedField] = celsiusToKelvin(value as number);
-        } else if (field.includes("direction")) {
-          forecast[translatedField] = degToRad(value as number);
-        } else if (field === "ocean_current_velocity") {
-          forecast[translatedField] = kmhToMs(value as number); // Current velocity is in km/h
-        } else {
-          // Wave heights, periods are already in meters/seconds
-          forecast[translatedField] = value;
-        }
+      ENSEMBLE_VARIABLES.forEach((variable) => {
+        const members = memberSeries[variable]
+          .map((series) => series[dataIndex])
+          .filter((value): value is number => typeof value === "number")
+          .map((value) => convertVariableValue(variable, value))
+          .sort((a, b) => a - b);
+        if (members.length === 0) return;
+
+        const field = translateFieldName(variable);
+        ENSEMBLE_STATS.forEach((stat) => {
+          forecast[`${field}Ensemble${stat.suffix}`] = quantile(members, stat.quantile);
+        });
+        forecast.ensembleMembers = Math.max(forecast.ensembleMembers || 0, members.length);
       });
 
       forecasts.push(forecast);
@@ -1227,52 +3441,246 @@ export = function (app: SignalKApp): SignalKPlugin {
     return forecasts;
   };
 
-  // Process daily marine forecast
-  const processDailyMarineForecast = (
-    data: OpenMeteoMarineResponse,
-    maxDays: number,
-  ): Record<string, any>[] => {
-    const forecasts: Record<string, any>[] = [];
-    const daily = data.daily;
-    if (!daily || !daily.time) return forecasts;
-
-    const count = Math.min(maxDays, daily.time.length);
+  // Irradiance at which panels deliver their rated peak power (standard test conditions)
+  const STC_IRRADIANCE = 1000;
+
+  // Expected output of a panel array (W) for a tilted irradiance (W/m2)
+  const calculateArrayPower = (array: SolarArray, irradiance: number): number =>
+    (Math.max(0, irradiance) / STC_IRRADIANCE) * array.peakPower * (1 - array.losses / 100);
+
+  // Field name suffix for a panel array, e.g. "port rail" -> "PortRail"
+  const getSolarNameSuffix = (array: SolarArray, index: number): string => {
+    const suffix = array.name
+      .split(/[^A-Za-z0-9]+/)
+      .filter((part) => part)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join("");
+    return suffix || `Array${index + 1}`;
+  };
 
-    for (let i = 0; i < count; i++) {
-      const forecast: Record<string, any> = {
-        date: daily.time[i],
-        dayIndex: i,
-      };
+  // Suffix of a panel array among all configured arrays; arrays sharing a name
+  // get their position appended so they don't overwrite each other's fields
+  const getSolarArraySuffix = (arrays: SolarArray[], index: number): string => {
+    const suffix = getSolarNameSuffix(arrays[index], index);
+    const shared = arrays.filter((array, i) => getSolarNameSuffix(array, i) === suffix).length > 1;
+    return shared ? `${suffix}${index + 1}` : suffix;
+  };
 
-      // Process each field with unit conversions and translate field names
-      Object.entries(daily).forEach(([field, values]) => {
-        if (field === "time" || !Array.isArray(values)) return;
-        const value = values[i];
-        if (value === undefined || value === null) return;
+  // Hourly expected power and daily expected energy, in total and per panel array.
+  // Daily energy sums every hour of the local date, including hours already past.
+  const processSolarForecast = (
+    results: Array<{ array: SolarArray; index: number; data: OpenMeteoWeatherResponse }>,
+    arrays: SolarArray[],
+    maxHours: number,
+    maxDays: number,
+  ): { hourlySolar: Record<string, any>[]; dailySolar: Record<string, any>[] } => {
+    const hourlySolar: Record<string, any>[] = [];
+    const dailySolar: Record<string, any>[] = [];
+    const times = results[0]?.data.hourly?.time;
+    if (!times) return { hourlySolar, dailySolar };
 
-        // Translate field name to SignalK-aligned name
-        const translatedField = translateFieldName(field);
+    const now = new Date();
+    const startIndex = times.findIndex((t) => new Date(t) >= now);
+    const dailyTotals: Map<string, Record<string, number>> = new Map();
+
+    times.forEach((time, dataIndex) => {
+      const power: Record<string, number> = { solarPower: 0 };
+      results.forEach(({ array, index, data }) => {
+        const irradiance = data.hourly?.global_tilted_irradiance?.[dataIndex];
+        if (typeof irradiance !== "number") return;
+        const arrayPower = calculateArrayPower(array, irradiance);
+        power[`solarPower${getSolarArraySuffix(arrays, index)}`] = arrayPower;
+        power.solarPower += arrayPower;
+      });
 
-        // Apply unit conversions
-        if (field.includes("direction")) {
-          forecast[translatedField] = degToRad(value as number);
-        } else {
-          forecast[translatedField] = value;
-        }
+      // Each hourly value is the mean over the hour, so energy is power x 3600 s
+      const date = time.substring(0, 10);
+      const totals = dailyTotals.get(date) || {};
+      Object.entries(power).forEach(([field, value]) => {
+        const energyField = field.replace("solarPower", "solarEnergy");
+        totals[energyField] = (totals[energyField] || 0) + value * 3600;
       });
+      dailyTotals.set(date, totals);
 
+      if (startIndex !== -1 && dataIndex >= startIndex && hourlySolar.length < maxHours) {
+        hourlySolar.push({ timestamp: time, relativeHour: hourlySolar.length, ...power });
+      }
+    });
+
+    Array.from(dailyTotals.entries())
+      .slice(0, maxDays)
+      .forEach(([date, totals], dayIndex) => {
+        dailySolar.push({ date, dayIndex, ...totals });
+      });
+
+    return { hourlySolar, dailySolar };
+  };
+
+  // Process hourly air quality forecast
+  const processHourlyAirQualityForecast = (
+    data: OpenMeteoAirQualityResponse,
+    maxHours: number,
+  ): Record<string, any>[] => {
+    const forecasts: Record<string, any>[] = [];
+    const hourly = data.hourly;
+    if (!hourly || !hourly.time) return forecasts;
+
+    const now = new Date();
+    const startIndex = hourly.time.findIndex((t) => new Date(t) >= now);
+    if (startIndex === -1) return forecasts;
+
+    const count = Math.min(maxHours, hourly.time.length - startIndex);
+
+    for (let i = 0; i < count; i++) {
+      const dataIndex = startIndex + i;
+      const forecast: Record<string, any> = {
+        timestamp: hourly.time[dataIndex],
+        relativeHour: i,
+      };
+
+      Object.entries(hourly).forEach(([field, values]) => {
+        if (field === "time" || !Array.isArray(values)) return;
+        const value = values[dataIndex];
+        if (typeof value !== "number") return;
+        forecast[translateFieldName(field)] = convertVariableValue(field, value);
+      });
+
+      forecasts.push(forecast);
+    }
+
+    return forecasts;
+  };
+
+  // Process hourly marine forecast
+  const processHourlyMarineForecast = (
+    data: OpenMeteoMarineResponse,
+    maxHours: number,
+  ): Record<string, any>[] => {
+    const forecasts: Record<string, any>[] = [];
+    const hourly = data.hourly;
+    if (!hourly || !hourly.time) return forecasts;
+
+    const now = new Date();
+    const startIndex = hourly.time.findIndex(
+      (t) => new Date(t) >= now,
+    );
+    if (startIndex === -1) return forecasts;
+
+    const count = Math.min(maxHours, hourly.time.length - startIndex);
+
+    for (let i = 0; i < count; i++) {
+      const dataIndex = startIndex + i;
+      const forecast: Record<string, any> = {
+        timestamp: hourly.time[dataIndex],
+        relativeHour: i,
+      };
+
+      // Process each field with unit conversions and translate field names
+      Object.entries(hourly).forEach(([field, values]) => {
+        if (field === "time" || !Array.isArray(values)) return;
+        const value = values[dataIndex];
+        if (value === undefined || value === null) return;
+
+        // Translate field name to SignalK-aligned name
+        forecast[translateFieldName(field)] = convertVariableValue(field, value);
+      });
+
+      addClassificationFields(forecast);
+      forecasts.push(forecast);
+    }
+
+    return forecasts;
+  };
+
+  // Process daily marine forecast
+  const processDailyMarineForecast = (
+    data: OpenMeteoMarineResponse,
+    maxDays: number,
+  ): Record<string, any>[] => {
+    const forecasts: Record<string, any>[] = [];
+    const daily = data.daily;
+    if (!daily || !daily.time) return forecasts;
+
+    const count = Math.min(maxDays, daily.time.length);
+
+    for (let i = 0; i < count; i++) {
+      const forecast: Record<string, any> = {
+        date: daily.time[i],
+        dayIndex: i,
+      };
+
+      // Process each field with unit conversions and translate field names
+      Object.entries(daily).forEach(([field, values]) => {
+        if (field === "time" || !Array.isArray(values)) return;
+        const value = values[i];
+        if (value === undefined || value === null) return;
+
+        // Translate field name to SignalK-aligned name
+        const translatedField = translateFieldName(field);
+
+        // Apply unit conversions
+        forecast[translatedField] =
+          typeof value === "number" ? convertVariableValue(field, value) : value;
+      });
+
+      addClassificationFields(forecast);
       forecasts.push(forecast);
     }
 
     return forecasts;
   };
 
-  // Publish hourly forecasts for a single package (weather or marine)
+  // Slot counts and keys last published per package, so shrinking packages can clear old slots
+  const publishedSlots: Map<string, { count: number; keys: string[] }> = new Map();
+
+  // Publish null for slots beyond the new package length so readers don't see stale entries
+  const clearSurplusSlots = (
+    slotPath: string,
+    forecasts: Record<string, any>[],
+    sourceLabel: string,
+  ): void => {
+    const key = `${slotPath}|${sourceLabel}`;
+    const previous = publishedSlots.get(key);
+    const keys = Array.from(
+      new Set(forecasts.flatMap((forecast) => Object.keys(forecast))),
+    ).filter((field) => !["timestamp", "relativeHour", "date", "dayIndex"].includes(field));
+    publishedSlots.set(key, { count: forecasts.length, keys });
+    if (!previous || previous.count <= forecasts.length) return;
+
+    const values: { path: string; value: any }[] = [];
+    for (let index = forecasts.length; index < previous.count; index++) {
+      previous.keys.forEach((field) => {
+        values.push({
+          path: `${slotPath}.${field}.${index}`,
+          value: null,
+        });
+      });
+    }
+
+    app.handleMessage(plugin.id, {
+      context: "vessels.self",
+      updates: [
+        { $source: sourceLabel, timestamp: new Date().toISOString(), values },
+      ],
+    });
+  };
+
+  // Path prefix for published forecasts; per-model forecasts live under forecast.<model>
+  const getForecastPathPrefix = (model?: string): string =>
+    model
+      ? `environment.outside.openmeteo.forecast.${model}`
+      : "environment.outside.openmeteo.forecast";
+
+  // Publish hourly forecasts for a single package (weather or marine), optionally for a specific model
   const publishHourlyPackage = (
     forecasts: Record<string, any>[],
     packageType: string,
+    model?: string,
   ): void => {
-    const sourceLabel = getSourceLabel(`hourly-${packageType}`);
+    const sourceLabel = getSourceLabel(
+      model ? `hourly-${packageType}-${model}` : `hourly-${packageType}`,
+    );
+    const slotPath = `${getForecastPathPrefix(model)}.hourly`;
 
     forecasts.forEach((forecast, index) => {
       const values: { path: string; value: any }[] = [];
@@ -1280,7 +3688,7 @@ export = function (app: SignalKApp): SignalKPlugin {
 
       Object.entries(forecast).forEach(([key, value]) => {
         if (key === "timestamp" || key === "relativeHour") return;
-        const path = `environment.outside.openmeteo.forecast.hourly.${key}.${index}`;
+        const path = `${slotPath}.${key}.${index}`;
         const metadata = getParameterMetadata(key);
         values.push({ path, value });
         meta.push({ path, value: metadata });
@@ -1303,7 +3711,10 @@ export = function (app: SignalKApp): SignalKPlugin {
       app.handleMessage(plugin.id, delta);
     });
 
-    app.debug(`Published ${forecasts.length} hourly ${packageType} forecasts`);
+    clearSurplusSlots(slotPath, forecasts, sourceLabel);
+    app.debug(
+      `Published ${forecasts.length} hourly ${packageType} forecasts${model ? ` for model ${model}` : ""}`,
+    );
   };
 
   // Publish daily forecasts for a single package (weather or marine)
@@ -1342,64 +3753,104 @@ export = function (app: SignalKApp): SignalKPlugin {
       app.handleMessage(plugin.id, delta);
     });
 
+    clearSurplusSlots(
+      `${getForecastPathPrefix()}.daily`,
+      forecasts,
+      sourceLabel,
+    );
     app.debug(`Published ${forecasts.length} daily ${packageType} forecasts`);
   };
 
-  // Fetch forecasts for a moving vessel (position-specific forecasts along predicted route)
+  // Publish current conditions snapshot under environment.outside.openmeteo.current
+  const publishCurrentConditions = (conditions: Record<string, any>): void => {
+    const values: { path: string; value: any }[] = [];
+    const meta: { path: string; value: any }[] = [];
+
+    Object.entries(conditions).forEach(([key, value]) => {
+      if (key === "timestamp") return;
+      const path = `environment.outside.openmeteo.current.${key}`;
+      values.push({ path, value });
+      meta.push({ path, value: getParameterMetadata(key) });
+    });
+
+    // Observation time is published explicitly so the Weather API can report it
+    const timePath = "environment.outside.openmeteo.current.observationTime";
+    values.push({ path: timePath, value: conditions.timestamp });
+    meta.push({ path: timePath, value: getParameterMetadata("observationTime") });
+
+    const delta: SignalKDelta = {
+      context: "vessels.self",
+      updates: [
+        {
+          $source: getSourceLabel("current-weather"),
+          timestamp: conditions.timestamp,
+          values,
+          meta,
+        },
+      ],
+    };
+
+    app.handleMessage(plugin.id, delta);
+    app.debug(`Published current conditions observed at ${conditions.timestamp}`);
+  };
+
+  // Fetch forecasts for a moving vessel (position-specific forecasts along the
+  // active route, or along a straight-line projection of COG/SOG)
   const fetchForecastForMovingVessel = async (
     config: PluginConfig,
   ): Promise<void> => {
-    if (
-      !state.currentPosition ||
-      !state.currentHeading ||
-      !state.currentSOG ||
-      !isVesselMoving(state.currentSOG, config.movingSpeedThreshold) ||
-      !state.movingForecastEngaged
-    ) {
+    if (!shouldUseMovingForecast(config)) {
       app.debug(
         "Vessel not moving, missing navigation data, or moving forecast not engaged, falling back to stationary forecast",
       );
       return fetchAndPublishForecasts(config);
     }
 
-    app.debug(
-      `Vessel moving at ${(state.currentSOG * 1.943844).toFixed(1)} knots (threshold: ${config.movingSpeedThreshold} knots), heading ${radToDeg(state.currentHeading).toFixed(1)}°`,
-    );
+    // Capture validated state for use in helper functions
+    const currentPosition = state.currentPosition!;
+    const followRoute = canForecastAlongRoute(config);
+
+    if (followRoute) {
+      app.debug(
+        `Following active route ${state.activeRoute?.name || state.activeRoute?.href || "(next point)"} at ${((getRouteSpeed(config) || 0) * 1.943844).toFixed(1)} knots`,
+      );
+    } else {
+      app.debug(
+        `Vessel moving at ${(state.currentSOG! * 1.943844).toFixed(1)} knots (threshold: ${config.movingSpeedThreshold} knots), heading ${radToDeg(state.currentHeading!).toFixed(1)}°`,
+      );
+    }
     app.debug(
       `Fetching position-specific forecasts for ${config.maxForecastHours} hours`,
     );
 
-    // Capture validated state for use in helper functions
-    const currentPosition = state.currentPosition!;
-    const currentHeading = state.currentHeading!;
-    const currentSOG = state.currentSOG!;
+    const predictedPositions = predictVesselPositions(config, currentPosition);
 
-    const now = new Date();
-    const currentHour = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
-      now.getHours(),
-      0,
-      0,
-      0,
+    const currentHour = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+
+    // Plan request resolution against the remaining request budget
+    const fetchStep = planMovingForecastStep(config, predictedPositions.length);
+    if (fetchStep === null) {
+      app.debug(
+        "Request budget too low for position-specific forecasts, falling back to stationary forecast",
+      );
+      return fetchAndPublishForecasts(config);
+    }
+    const fetchPositions = predictedPositions.filter(
+      (predictedPos) => predictedPos.hour % fetchStep === 0,
     );
 
-    // Helper function to fetch forecast for a single hour
-    const fetchHourForecast = async (hour: number): Promise<{
+    type MovingForecastResult = {
       hour: number;
-      predictedPos: Position;
-      targetTime: Date;
+      predictedPos: PredictedPosition;
       weatherData: OpenMeteoWeatherResponse | null;
       marineData: OpenMeteoMarineResponse | null;
-    } | null> => {
-      const predictedPos = calculateFuturePosition(
-        currentPosition,
-        currentHeading,
-        currentSOG,
-        hour,
-      );
-      const targetTime = new Date(currentHour.getTime() + hour * 3600000);
+    };
+
+    // Helper function to fetch forecast for a single predicted position
+    const fetchHourForecast = async (
+      predictedPos: PredictedPosition,
+    ): Promise<MovingForecastResult | null> => {
+      const hour = predictedPos.hour;
 
       app.debug(
         `Hour ${hour}: Fetching weather for position ${predictedPos.latitude.toFixed(6)}, ${predictedPos.longitude.toFixed(6)}`,
@@ -1412,7 +3863,7 @@ export = function (app: SignalKApp): SignalKPlugin {
             ? await fetchMarineData(predictedPos, config)
             : null;
 
-        return { hour, predictedPos, targetTime, weatherData, marineData };
+        return { hour, predictedPos, weatherData, marineData };
       } catch (err) {
         app.debug(`Hour ${hour}: Fetch failed - ${err}`);
         return null;
@@ -1420,264 +3871,566 @@ export = function (app: SignalKApp): SignalKPlugin {
     };
 
     try {
-      // Fetch forecasts in parallel batches (5 concurrent requests)
-      const BATCH_SIZE = 5;
-      const BATCH_DELAY_MS = 200;
-
-      const allResults: Array<{
-        hour: number;
-        predictedPos: Position;
-        targetTime: Date;
-        weatherData: OpenMeteoWeatherResponse | null;
-        marineData: OpenMeteoMarineResponse | null;
-      }> = [];
-
+      // Requests are queued by the request scheduler, which limits concurrency
       app.debug(
-        `Fetching ${config.maxForecastHours} hourly forecasts in batches of ${BATCH_SIZE}`,
+        `Fetching ${fetchPositions.length} position-specific forecasts${fetchStep > 1 ? ` (every ${fetchStep} hours to stay within the request budget)` : ""}`,
       );
 
-      for (
-        let batchStart = 0;
-        batchStart < config.maxForecastHours;
-        batchStart += BATCH_SIZE
-      ) {
-        const batchEnd = Math.min(
-          batchStart + BATCH_SIZE,
-          config.maxForecastHours,
-        );
-        const batchHours = Array.from(
-          { length: batchEnd - batchStart },
-          (_, i) => batchStart + i,
-        );
-
-        app.debug(`Fetching batch: hours ${batchStart}-${batchEnd - 1}`);
-
-        const batchResults = await Promise.all(
-          batchHours.map((hour) => fetchHourForecast(hour)),
-        );
-
-        batchResults.forEach((result) => {
-          if (result) {
-            allResults.push(result);
-          }
-        });
-
-        if (batchEnd < config.maxForecastHours) {
-          await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
-        }
-      }
-
-      // Process and publish weather hourly forecasts
-      if (config.enableHourlyWeather) {
-        const hourlyWeatherForecasts: Record<string, any>[] = [];
-
-        allResults.forEach((result) => {
-          if (result.weatherData?.hourly) {
-            const hourlyData = result.weatherData.hourly;
-            const targetHour = result.targetTime.getHours();
-
-            // Find matching hour in the response
-            const times = hourlyData.time || [];
-            for (let i = 0; i < times.length; i++) {
-              const forecastTime = new Date(times[i]);
-              if (
-                forecastTime.getFullYear() === result.targetTime.getFullYear() &&
-                forecastTime.getMonth() === result.targetTime.getMonth() &&
-                forecastTime.getDate() === result.targetTime.getDate() &&
-                forecastTime.getHours() === targetHour
-              ) {
-                const forecast: Record<string, any> = {
-                  timestamp: forecastTime.toISOString(),
-                  predictedLatitude: result.predictedPos.latitude,
-                  predictedLongitude: result.predictedPos.longitude,
-                  vesselMoving: true,
-                };
-
-                // Extract all hourly fields for this time index
-                Object.keys(hourlyData).forEach((key) => {
-                  if (key !== "time") {
-                    const values = (hourlyData as Record<string, any>)[key];
-                    if (Array.isArray(values)) {
-                      forecast[key] = values[i];
-                    }
-                  }
-                });
-
-                hourlyWeatherForecasts.push(forecast);
-                break;
-              }
-            }
-          }
-        });
-
-        if (hourlyWeatherForecasts.length > 0) {
-          publishHourlyPackage(hourlyWeatherForecasts, "weather");
-          app.debug(
-            `Published ${hourlyWeatherForecasts.length} position-specific weather forecasts`,
+      const allResults = (
+        await Promise.all(fetchPositions.map((predictedPos) => fetchHourForecast(predictedPos)))
+      ).filter((result): result is MovingForecastResult => result !== null);
+
+      // Build a position-specific hourly package. Each hour is taken from the response
+      // fetched nearest to it along the track (the same hour when every hour was fetched).
+      const buildMovingPackage = <T extends { time: string[] }>(
+        getHourly: (result: MovingForecastResult) => T | undefined,
+        convertValue: (field: string, value: number) => number,
+        addSeriesFields?: (hourly: T, dataIndex: number, forecast: Record<string, any>) => void,
+      ): Record<string, any>[] => {
+        const forecasts: Record<string, any>[] = [];
+        const available = allResults.filter((result) => getHourly(result));
+        if (available.length === 0) return forecasts;
+
+        predictedPositions.forEach((predictedPos) => {
+          const result = available.reduce((best, candidate) =>
+            Math.abs(candidate.hour - predictedPos.hour) < Math.abs(best.hour - predictedPos.hour)
+              ? candidate
+              : best,
           );
-        }
-      }
-
-      // Process and publish marine hourly forecasts
-      if (config.enableMarineHourly) {
-        const hourlyMarineForecasts: Record<string, any>[] = [];
-
-        allResults.forEach((result) => {
-          if (result.marineData?.hourly) {
-            const hourlyData = result.marineData.hourly;
-            const targetHour = result.targetTime.getHours();
-
-            const times = hourlyData.time || [];
-            for (let i = 0; i < times.length; i++) {
-              const forecastTime = new Date(times[i]);
-              if (
-                forecastTime.getFullYear() === result.targetTime.getFullYear() &&
-                forecastTime.getMonth() === result.targetTime.getMonth() &&
-                forecastTime.getDate() === result.targetTime.getDate() &&
-                forecastTime.getHours() === targetHour
-              ) {
-                const forecast: Record<string, any> = {
-                  timestamp: forecastTime.toISOString(),
-                  predictedLatitude: result.predictedPos.latitude,
-                  predictedLongitude: result.predictedPos.longitude,
-                  vesselMoving: true,
-                };
-
-                Object.keys(hourlyData).forEach((key) => {
-                  if (key !== "time") {
-                    const values = (hourlyData as Record<string, any>)[key];
-                    if (Array.isArray(values)) {
-                      forecast[key] = values[i];
-                    }
-                  }
-                });
-
-                hourlyMarineForecasts.push(forecast);
-                break;
-              }
-            }
-          }
-        });
-
-        if (hourlyMarineForecasts.length > 0) {
-          publishHourlyPackage(hourlyMarineForecasts, "marine");
-          app.debug(
-            `Published ${hourlyMarineForecasts.length} position-specific marine forecasts`,
+          const targetTime = new Date(currentHour.getTime() + predictedPos.hour * 3600000);
+          const forecast = processHourlyAtTime(
+            getHourly(result),
+            result.weatherData?.utc_offset_seconds ?? result.marineData?.utc_offset_seconds,
+            targetTime,
+            convertValue,
+            addSeriesFields,
           );
-        }
-      }
+          if (!forecast) return;
+          forecasts.push({
+            ...forecast,
+            relativeHour: predictedPos.hour,
+            predictedLatitude: predictedPos.latitude,
+            predictedLongitude: predictedPos.longitude,
+            vesselMoving: true,
+            followingRoute: followRoute,
+          });
+        });
+        return forecasts;
+      };
 
-      // Daily forecasts still use current position
-      if (config.enableDailyWeather && allResults[0]?.weatherData) {
-        const dailyWeather = processDailyWeatherForecast(
-          allResults[0].weatherData,
-          config.maxForecastDays,
-        );
-        if (dailyWeather.length > 0) {
-          publishDailyPackage(dailyWeather, "weather");
-        }
+      const firstWeather = allResults.find((result) => result.weatherData)?.weatherData;
+      const firstMarine = allResults.find((result) => result.marineData)?.marineData;
+      if (!firstWeather && !firstMarine) {
+        throw new Error("No position-specific forecast data received");
       }
 
-      if (config.enableMarineDaily && allResults[0]?.marineData) {
-        const dailyMarine = processDailyMarineForecast(
-          allResults[0].marineData,
-          config.maxForecastDays,
-        );
-        if (dailyMarine.length > 0) {
-          publishDailyPackage(dailyMarine, "marine");
-        }
-      }
+      // Current conditions and daily forecasts still use current position
+      const snapshot: ForecastSnapshot = {
+        fetchedAt: new Date().toISOString(),
+        position: {
+          latitude: currentPosition.latitude,
+          longitude: currentPosition.longitude,
+        },
+        utcOffsetSeconds: firstWeather?.utc_offset_seconds,
+        current:
+          config.enableCurrentConditions && allResults[0]?.weatherData
+            ? processCurrentConditions(allResults[0].weatherData)
+            : null,
+        hourlyWeather: config.enableHourlyWeather
+          ? buildMovingPackage(
+              (result) => result.weatherData?.hourly,
+              convertVariableValue,
+              addWeatherSeriesFields,
+            )
+          : [],
+        hourlyMarine: config.enableMarineHourly
+          ? buildMovingPackage((result) => result.marineData?.hourly, convertVariableValue)
+          : [],
+        dailyWeather:
+          config.enableDailyWeather && allResults[0]?.weatherData
+            ? processDailyWeatherForecast(allResults[0].weatherData, config.maxForecastDays)
+            : [],
+        dailyMarine:
+          config.enableMarineDaily && allResults[0]?.marineData
+            ? processDailyMarineForecast(allResults[0].marineData, config.maxForecastDays)
+            : [],
+        // Model comparison stays at the current position; the route forecast isn't comparable
+        modelHourly: await fetchModelForecasts(currentPosition, config),
+        hourlyEnsemble: await fetchEnsembleForecast(currentPosition, config),
+        ...(await fetchSolarForecast(currentPosition, config)),
+        hourlyAirQuality: await fetchAirQualityForecast(currentPosition, config),
+      };
 
-      state.lastForecastUpdate = Date.now();
-      app.setPluginStatus("Active - Moving vessel forecasts updated");
+      completeForecastCycle(snapshot);
+      app.debug(
+        `Published ${snapshot.hourlyWeather.length} weather and ${snapshot.hourlyMarine.length} marine position-specific forecasts`,
+      );
+      app.setPluginStatus(
+        withRequestBudget(
+          followRoute
+            ? "Active - Route forecasts updated"
+            : "Active - Moving vessel forecasts updated",
+        ),
+      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      app.error(`Failed to fetch position-specific forecasts: ${errorMsg}`);
+      reportError(`Failed to fetch position-specific forecasts: ${errorMsg}`);
       app.debug("Falling back to stationary forecast");
       return fetchAndPublishForecasts(config);
     }
   };
 
-  // Fetch and publish all forecasts
-  const fetchAndPublishForecasts = async (config: PluginConfig) => {
-    if (!state.currentPosition) {
-      app.debug("No position available, skipping forecast fetch");
-      return;
-    }
-
-    const position = state.currentPosition;
-
-    // Fetch weather and marine data in parallel
-    const needsMarine = config.enableMarineHourly || config.enableMarineDaily;
-    const [weatherData, marineData] = await Promise.all([
-      fetchWeatherData(position, config),
-      needsMarine ? fetchMarineData(position, config) : Promise.resolve(null),
-    ]);
+  // Fetch hourly forecasts from each selected comparison model at a fixed position.
+  // The primary model's hourly package is reused when it was fetched for the same position.
+  const fetchModelForecasts = async (
+    position: Position,
+    config: PluginConfig,
+    primaryHourly?: Record<string, any>[],
+  ): Promise<Record<string, Record<string, any>[]>> => {
+    const modelHourly: Record<string, Record<string, any>[]> = {};
+    if (!config.enableHourlyWeather || config.models.length === 0) return modelHourly;
+
+    // Comparison models only need the hourly block
+    const modelConfig: PluginConfig = {
+      ...config,
+      enableDailyWeather: false,
+      enableCurrentConditions: false,
+    };
 
-    if (!weatherData && !marineData) {
-      app.error("Failed to fetch any forecast data");
-      return;
+    for (const model of config.models) {
+      if (model === config.primaryModel && primaryHourly) {
+        modelHourly[model] = primaryHourly;
+        continue;
+      }
+      const data = await fetchWeatherData(position, modelConfig, model);
+      if (!data) {
+        app.debug(`No data received for model ${model}`);
+        continue;
+      }
+      modelHourly[model] = processHourlyWeatherForecast(data, config.maxForecastHours);
     }
 
-    // Store the UTC offset for timezone conversion (used for day/night icon calculation)
-    if (weatherData?.utc_offset_seconds !== undefined) {
-      const delta: SignalKDelta = {
-        context: "vessels.self",
-        updates: [
-          {
-            $source: getSourceLabel("weather"),
-            timestamp: new Date().toISOString(),
-            values: [
-              {
-                path: "environment.outside.openmeteo.utcOffsetSeconds",
-                value: weatherData.utc_offset_seconds,
-              },
-            ],
-          },
-        ],
-      };
-      app.handleMessage(plugin.id, delta);
-    }
+    return modelHourly;
+  };
 
-    // Process and publish hourly forecasts - separate packages like meteoblue
-    if (config.enableHourlyWeather && weatherData) {
-      const hourlyWeather = processHourlyWeatherForecast(weatherData, config.maxForecastHours);
-      if (hourlyWeather.length > 0) {
-        publishHourlyPackage(hourlyWeather, "weather");
-      }
-    }
+  // Fetch and reduce the ensemble forecast at a fixed position
+  const fetchEnsembleForecast = async (
+    position: Position,
+    config: PluginConfig,
+  ): Promise<Record<string, any>[]> => {
+    if (!config.enableEnsemble) return [];
+    const data = await fetchEnsembleData(position, config);
+    return data ? processHourlyEnsembleForecast(data, config.maxForecastHours) : [];
+  };
 
-    if (config.enableMarineHourly && marineData) {
-      const hourlyMarine = processHourlyMarineForecast(marineData, config.maxForecastHours);
-      if (hourlyMarine.length > 0) {
-        publishHourlyPackage(hourlyMarine, "marine");
-      }
-    }
+  // Fetch the air quality forecast at a fixed position
+  const fetchAirQualityForecast = async (
+    position: Position,
+    config: PluginConfig,
+  ): Promise<Record<string, any>[]> => {
+    if (!config.enableAirQuality || config.variables.airQuality.length === 0) return [];
+    const data = await fetchAirQualityData(position, config);
+    return data ? processHourlyAirQualityForecast(data, config.maxForecastHours) : [];
+  };
 
-    // Process and publish daily forecasts - separate packages like meteoblue
-    if (config.enableDailyWeather && weatherData) {
-      const dailyWeather = processDailyWeatherForecast(weatherData, config.maxForecastDays);
-      if (dailyWeather.length > 0) {
-        publishDailyPackage(dailyWeather, "weather");
+  // Fetch tilted irradiance for each panel array and compute the solar forecast
+  const fetchSolarForecast = async (
+    position: Position,
+    config: PluginConfig,
+  ): Promise<{ hourlySolar: Record<string, any>[]; dailySolar: Record<string, any>[] }> => {
+    const results: Array<{ array: SolarArray; index: number; data: OpenMeteoWeatherResponse }> = [];
+    for (const [index, array] of config.solarArrays.entries()) {
+      const data = await fetchSolarData(position, config, array);
+      if (data) {
+        results.push({ array, index, data });
       }
     }
+    return processSolarForecast(
+      results,
+      config.solarArrays,
+      config.maxForecastHours,
+      config.maxForecastDays,
+    );
+  };
 
-    if (config.enableMarineDaily && marineData) {
-      const dailyMarine = processDailyMarineForecast(marineData, config.maxForecastDays);
-      if (dailyMarine.length > 0) {
-        publishDailyPackage(dailyMarine, "marine");
-      }
-    }
+  // Path of the persisted forecast snapshot in the plugin data directory
+  const getForecastCacheFile = (): string =>
+    path.join(app.getDataDirPath(), "forecast-cache.json");
+
+  // Whether the last successful fetch is older than the configured threshold
+  const isForecastStale = (config: PluginConfig): boolean =>
+    !state.lastForecastUpdate ||
+    Date.now() - state.lastForecastUpdate > config.staleForecastHours * 3600000;
+
+  // Drop hours and days that have already passed so the offline view stays meaningful
+  const trimForecastSnapshot = (snapshot: ForecastSnapshot): ForecastSnapshot => {
+    // Forecast times are local to the forecast position; keep the hour in progress
+    const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+    const today = new Date(Date.now() + (snapshot.utcOffsetSeconds || 0) * 1000)
+      .toISOString()
+      .substring(0, 10);
+
+    const trimHourly = (forecasts: Record<string, any>[]) =>
+      forecasts
+        .filter(
+          (forecast) =>
+            Date.parse(localTimeToUtcIso(String(forecast.timestamp), snapshot.utcOffsetSeconds)) >=
+            currentHour,
+        )
+        .map((forecast, index) => ({ ...forecast, relativeHour: index }));
+    const trimDaily = (forecasts: Record<string, any>[]) =>
+      forecasts
+        .filter((forecast) => String(forecast.date) >= today)
+        .map((forecast, index) => ({ ...forecast, dayIndex: index }));
 
-    state.lastForecastUpdate = Date.now();
-    app.setPluginStatus("Active - Forecasts updated");
+    return {
+      ...snapshot,
+      hourlyWeather: trimHourly(snapshot.hourlyWeather),
+      hourlyMarine: trimHourly(snapshot.hourlyMarine),
+      dailyWeather: trimDaily(snapshot.dailyWeather),
+      dailyMarine: trimDaily(snapshot.dailyMarine),
+      hourlyEnsemble: trimHourly(snapshot.hourlyEnsemble || []),
+      hourlySolar: trimHourly(snapshot.hourlySolar || []),
+      hourlyAirQuality: trimHourly(snapshot.hourlyAirQuality || []),
+      dailySolar: trimDaily(snapshot.dailySolar || []),
+      modelHourly: Object.fromEntries(
+        Object.entries(snapshot.modelHourly || {}).map(([model, forecasts]) => [
+          model,
+          trimHourly(forecasts),
+        ]),
+      ),
+    };
+  };
+
+  // Store a successful fetch in the plugin data directory for offline passages
+  const saveForecastSnapshot = async (snapshot: ForecastSnapshot): Promise<void> => {
+    // A replayed demo must not replace the real offline forecast
+    if (
+      !state.currentConfig?.enableForecastPersistence ||
+      state.currentConfig.recordingMode === "replay"
+    ) {
+      return;
+    }
+
+    try {
+      await fs.promises.writeFile(
+        getForecastCacheFile(),
+        JSON.stringify(snapshot),
+        "utf8",
+      );
+      app.debug(`Saved forecast snapshot to ${getForecastCacheFile()}`);
+    } catch (error) {
+      app.error(
+        `Failed to save forecast snapshot: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  // Load the persisted forecast snapshot, if any
+  const loadForecastSnapshot = async (): Promise<ForecastSnapshot | null> => {
+    try {
+      const content = await fs.promises.readFile(getForecastCacheFile(), "utf8");
+      const snapshot = JSON.parse(content) as ForecastSnapshot;
+      if (!snapshot || typeof snapshot.fetchedAt !== "string") {
+        app.debug("Ignoring malformed forecast snapshot");
+        return null;
+      }
+
+      // Snapshots from older versions lack the newer packages
+      const packageOrEmpty = (forecasts: unknown): Record<string, any>[] =>
+        Array.isArray(forecasts) ? forecasts : [];
+      return {
+        ...snapshot,
+        current: snapshot.current || null,
+        hourlyWeather: packageOrEmpty(snapshot.hourlyWeather),
+        hourlyMarine: packageOrEmpty(snapshot.hourlyMarine),
+        dailyWeather: packageOrEmpty(snapshot.dailyWeather),
+        dailyMarine: packageOrEmpty(snapshot.dailyMarine),
+        hourlyEnsemble: packageOrEmpty(snapshot.hourlyEnsemble),
+        hourlySolar: packageOrEmpty(snapshot.hourlySolar),
+        dailySolar: packageOrEmpty(snapshot.dailySolar),
+        hourlyAirQuality: packageOrEmpty(snapshot.hourlyAirQuality),
+        modelHourly:
+          snapshot.modelHourly && typeof snapshot.modelHourly === "object"
+            ? Object.fromEntries(
+                Object.entries(snapshot.modelHourly).map(([model, forecasts]) => [
+                  model,
+                  packageOrEmpty(forecasts),
+                ]),
+              )
+            : {},
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        app.error(
+          `Failed to load forecast snapshot: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      return null;
+    }
+  };
+
+  // Republish the last known forecast (trimmed to the future) when no live data is available
+  const republishPersistedForecast = (): void => {
+    if (!state.forecastSnapshot) return;
+
+    const trimmed = trimForecastSnapshot(state.forecastSnapshot);
+    state.forecastSnapshot = trimmed;
+    state.forecastFromCache = true;
+    publishForecastSnapshot(trimmed);
+
+    const ageHours = (Date.now() - state.lastForecastUpdate) / 3600000;
+    app.setPluginStatus(
+      `Offline - Serving cached forecast from ${trimmed.fetchedAt} (${ageHours.toFixed(1)} h old)`,
+    );
+  };
+
+  // Record a successful fetch: publish, remember and persist the snapshot
+  const completeForecastCycle = (snapshot: ForecastSnapshot): void => {
+    state.lastForecastUpdate = Date.parse(snapshot.fetchedAt);
+    state.forecastFromCache = false;
+    state.forecastSnapshot = snapshot;
+    publishForecastSnapshot(snapshot);
+    saveForecastSnapshot(snapshot);
+    recordVerificationForecasts(snapshot);
+  };
+
+  // Publish forecast freshness so consumers can tell live data from an aging cache
+  const publishForecastFreshness = (): void => {
+    if (!state.lastForecastUpdate || !state.currentConfig) return;
+
+    const values = [
+      {
+        path: "environment.outside.openmeteo.forecast.fetchedAt",
+        value: new Date(state.lastForecastUpdate).toISOString(),
+      },
+      {
+        path: "environment.outside.openmeteo.forecast.stale",
+        value: isForecastStale(state.currentConfig),
+      },
+      {
+        path: "environment.outside.openmeteo.forecast.fromCache",
+        value: state.forecastFromCache,
+      },
+    ];
+
+    const delta: SignalKDelta = {
+      context: "vessels.self",
+      updates: [
+        {
+          $source: getSourceLabel("weather"),
+          timestamp: new Date().toISOString(),
+          values,
+          meta: values.map(({ path }) => ({
+            path,
+            value: getParameterMetadata(path.split(".").pop() as string),
+          })),
+        },
+      ],
+    };
+    app.handleMessage(plugin.id, delta);
+  };
+
+  // Publish all packages of a processed forecast snapshot
+  const publishForecastSnapshot = (snapshot: ForecastSnapshot): void => {
+    // Store the UTC offset for timezone conversion (used for day/night icon calculation)
+    if (snapshot.utcOffsetSeconds !== undefined) {
+      const delta: SignalKDelta = {
+        context: "vessels.self",
+        updates: [
+          {
+            $source: getSourceLabel("weather"),
+            timestamp: new Date().toISOString(),
+            values: [
+              {
+                path: "environment.outside.openmeteo.utcOffsetSeconds",
+                value: snapshot.utcOffsetSeconds,
+              },
+            ],
+          },
+        ],
+      };
+      app.handleMessage(plugin.id, delta);
+    }
+
+    if (snapshot.current) {
+      publishCurrentConditions(snapshot.current);
+    }
+
+    // Hourly and daily forecasts are published as separate packages like meteoblue
+    if (snapshot.hourlyWeather.length > 0) {
+      publishHourlyPackage(snapshot.hourlyWeather, "weather");
+    }
+    if (snapshot.hourlyMarine.length > 0) {
+      publishHourlyPackage(snapshot.hourlyMarine, "marine");
+    }
+
+    // Bias-corrected values follow the raw ones on the same paths, under their own source
+    const correctedWeather = applyBiasCorrection(snapshot.hourlyWeather);
+    if (correctedWeather.length > 0) {
+      publishHourlyPackage(correctedWeather, "weather-corrected");
+    }
+    const correctedMarine = applyBiasCorrection(snapshot.hourlyMarine);
+    if (correctedMarine.length > 0) {
+      publishHourlyPackage(correctedMarine, "marine-corrected");
+    }
+    if (snapshot.dailyWeather.length > 0) {
+      publishDailyPackage(snapshot.dailyWeather, "weather");
+    }
+    if (snapshot.dailyMarine.length > 0) {
+      publishDailyPackage(snapshot.dailyMarine, "marine");
+    }
+    if (snapshot.hourlyEnsemble && snapshot.hourlyEnsemble.length > 0) {
+      publishHourlyPackage(snapshot.hourlyEnsemble, "ensemble");
+    }
+    if (snapshot.hourlyAirQuality && snapshot.hourlyAirQuality.length > 0) {
+      publishHourlyPackage(snapshot.hourlyAirQuality, "air-quality");
+    }
+    if (snapshot.hourlySolar && snapshot.hourlySolar.length > 0) {
+      publishHourlyPackage(snapshot.hourlySolar, "solar");
+    }
+    if (snapshot.dailySolar && snapshot.dailySolar.length > 0) {
+      publishDailyPackage(snapshot.dailySolar, "solar");
+    }
+    Object.entries(snapshot.modelHourly || {}).forEach(([model, forecasts]) => {
+      if (forecasts.length > 0) {
+        publishHourlyPackage(forecasts, "weather", model);
+      }
+    });
+
+    publishForecastFreshness();
+  };
+
+  // Fetch and publish all forecasts
+  const fetchAndPublishForecasts = async (config: PluginConfig) => {
+    if (!state.currentPosition) {
+      app.debug("No position available, skipping forecast fetch");
+      return;
+    }
+
+    const position = state.currentPosition;
+
+    // Fetch weather and marine data in parallel
+    const needsMarine = config.enableMarineHourly || config.enableMarineDaily;
+    const [weatherData, marineData] = await Promise.all([
+      fetchWeatherData(position, config),
+      needsMarine ? fetchMarineData(position, config) : Promise.resolve(null),
+    ]);
+
+    if (!weatherData && !marineData) {
+      reportError("Failed to fetch any forecast data");
+      republishPersistedForecast();
+      setDegradedStatus();
+      return;
+    }
+
+    const snapshot: ForecastSnapshot = {
+      fetchedAt: new Date().toISOString(),
+      position: { latitude: position.latitude, longitude: position.longitude },
+      utcOffsetSeconds: weatherData?.utc_offset_seconds,
+      current:
+        config.enableCurrentConditions && weatherData
+          ? processCurrentConditions(weatherData)
+          : null,
+      hourlyWeather:
+        config.enableHourlyWeather && weatherData
+          ? processHourlyWeatherForecast(weatherData, config.maxForecastHours)
+          : [],
+      hourlyMarine:
+        config.enableMarineHourly && marineData
+          ? processHourlyMarineForecast(marineData, config.maxForecastHours)
+          : [],
+      dailyWeather:
+        config.enableDailyWeather && weatherData
+          ? processDailyWeatherForecast(weatherData, config.maxForecastDays)
+          : [],
+      dailyMarine:
+        config.enableMarineDaily && marineData
+          ? processDailyMarineForecast(marineData, config.maxForecastDays)
+          : [],
+      modelHourly: {},
+      hourlyEnsemble: [],
+      hourlySolar: [],
+      dailySolar: [],
+      hourlyAirQuality: [],
+    };
+    snapshot.modelHourly = await fetchModelForecasts(
+      position,
+      config,
+      snapshot.hourlyWeather,
+    );
+    snapshot.hourlyEnsemble = await fetchEnsembleForecast(position, config);
+    Object.assign(snapshot, await fetchSolarForecast(position, config));
+    snapshot.hourlyAirQuality = await fetchAirQualityForecast(position, config);
+
+    completeForecastCycle(snapshot);
+    app.setPluginStatus(withRequestBudget("Active - Forecasts updated"));
+  };
+
+  // Append forecast age to a description when the data is stale or served from the offline cache
+  const appendForecastAge = (
+    description: string,
+    fetchedAt: number | undefined,
+  ): string => {
+    const config = state.currentConfig;
+    if (!fetchedAt || !config) return description;
+
+    const ageHours = (Date.now() - fetchedAt) / 3600000;
+    const stale = ageHours > config.staleForecastHours;
+    const fromCache = state.forecastFromCache && fetchedAt === state.lastForecastUpdate;
+    if (!stale && !fromCache) return description;
+
+    const flags = [stale ? "stale" : "", fromCache ? "offline cache" : ""]
+      .filter(Boolean)
+      .join(", ");
+    return `${description} (forecast issued ${ageHours.toFixed(1)} h ago, ${flags})`;
+  };
+
+  // Add the Beaufort force and sea state in briefing terms, e.g. "force 5 (fresh breeze), moderate sea"
+  const appendConditionTerms = (description: string, forecastData: any): string => {
+    const terms: string[] = [];
+    if (typeof forecastData.beaufortForce === "number") {
+      terms.push(
+        `force ${forecastData.beaufortForce} (${BEAUFORT_DESCRIPTIONS[forecastData.beaufortForce]})`,
+      );
+    }
+    if (typeof forecastData.seaState === "number") {
+      terms.push(`${SEA_STATE_DESCRIPTIONS[forecastData.seaState]} sea`);
+    }
+    const steepnessClass = WAVE_STEEPNESS_CLASSES.find(
+      ({ label }) => label === forecastData.waveSteepnessClass,
+    );
+    if (steepnessClass?.briefing) {
+      terms.push(steepnessClass.briefing);
+    }
+    return terms.length > 0 ? `${description}; ${terms.join(", ")}` : description;
   };
 
   // Weather API provider implementation (using SignalK-aligned field names)
   const convertToWeatherAPIForecast = (
     forecastData: any,
-    type: WeatherForecastType,
+    type: WeatherDataType,
   ): WeatherData => {
+    // Catalogue variables fill their Weather API fields; the first variable present wins,
+    // so hourly fields take precedence over their daily counterparts
+    const groups: Record<WeatherApiField["group"], Record<string, unknown>> = {
+      outside: {
+        pressureTendency: forecastData.pressureTendency,
+        precipitationType: forecastData.precipitationType,
+        absoluteHumidity: forecastData.absoluteHumidity,
+      },
+      water: { seaState: forecastData.seaState, waveSteepness: forecastData.waveSteepness },
+      wind: {},
+    };
+    VARIABLE_CATALOGUE.forEach(({ signalkName, weatherApi }) => {
+      const value = forecastData[signalkName];
+      if (!weatherApi || value === undefined || value === null) return;
+      const group = groups[weatherApi.group];
+      if (group[weatherApi.key] === undefined) {
+        group[weatherApi.key] = value;
+      }
+    });
+
     return {
       date: forecastData.timestamp || forecastData.date || new Date().toISOString(),
       type,
@@ -1685,9 +4438,15 @@ export = function (app: SignalKApp): SignalKPlugin {
         forecastData.weatherCode,
         "Open-Meteo weather",
       ),
-      longDescription: getWeatherLongDescription(
-        forecastData.weatherCode,
-        "Open-Meteo weather forecast",
+      longDescription: appendForecastAge(
+        appendConditionTerms(
+          getWeatherLongDescription(
+            forecastData.weatherCode,
+            "Open-Meteo weather forecast",
+          ),
+          forecastData,
+        ),
+        forecastData.fetchedAt,
       ),
       icon: getWeatherIcon(
         forecastData.weatherCode,
@@ -1697,47 +4456,9 @@ export = function (app: SignalKApp): SignalKPlugin {
         forecastData.sunset,
         forecastData.utcOffsetSeconds,
       ),
-      outside: {
-        temperature: forecastData.airTemperature,
-        maxTemperature: forecastData.airTempHigh,
-        minTemperature: forecastData.airTempLow,
-        feelsLikeTemperature: forecastData.feelsLike || forecastData.feelsLikeHigh,
-        pressure: forecastData.seaLevelPressure,
-        relativeHumidity: forecastData.relativeHumidity,
-        uvIndex: forecastData.uvIndex || forecastData.uvIndexMax,
-        cloudCover: forecastData.cloudCover,
-        precipitationVolume: forecastData.precip || forecastData.precipSum,
-        dewPointTemperature: forecastData.dewPoint,
-        horizontalVisibility: forecastData.visibility,
-        precipitationProbability: forecastData.precipProbability || forecastData.precipProbabilityMax,
-        lowCloudCover: forecastData.lowCloudCover,
-        midCloudCover: forecastData.midCloudCover,
-        highCloudCover: forecastData.highCloudCover,
-        solarRadiation: forecastData.solarRadiation || forecastData.solarRadiationSum,
-        directNormalIrradiance: forecastData.irradianceDirectNormal,
-        diffuseHorizontalIrradiance: forecastData.diffuseRadiation,
-      },
-      water: {
-        temperature: forecastData.seaSurfaceTemperature,
-        waveSignificantHeight: forecastData.significantWaveHeight || forecastData.significantWaveHeightMax,
-        wavePeriod: forecastData.meanWavePeriod || forecastData.meanWavePeriodMax,
-        waveDirection: forecastData.meanWaveDirection || forecastData.meanWaveDirectionDominant,
-        windWaveHeight: forecastData.windWaveHeight || forecastData.windWaveHeightMax,
-        windWavePeriod: forecastData.windWavePeriod || forecastData.windWavePeriodMax,
-        windWaveDirection: forecastData.windWaveDirection || forecastData.windWaveDirectionDominant,
-        swellHeight: forecastData.swellSignificantHeight || forecastData.swellSignificantHeightMax,
-        swellPeriod: forecastData.swellMeanPeriod || forecastData.swellMeanPeriodMax,
-        swellDirection: forecastData.swellMeanDirection || forecastData.swellMeanDirectionDominant,
-        surfaceCurrentSpeed: forecastData.currentVelocity,
-        surfaceCurrentDirection: forecastData.currentDirection,
-        swellPeakPeriod: forecastData.swellPeakPeriod || forecastData.swellPeakPeriodMax,
-        windWavePeakPeriod: forecastData.windWavePeakPeriod || forecastData.windWavePeakPeriodMax,
-      },
-      wind: {
-        speedTrue: forecastData.windAvg || forecastData.windAvgMax,
-        directionTrue: forecastData.windDirection || forecastData.windDirectionDominant,
-        gust: forecastData.windGust || forecastData.windGustMax,
-      },
+      outside: groups.outside,
+      water: groups.water,
+      wind: groups.wind,
       sun: {
         sunrise: forecastData.sunrise,
         sunset: forecastData.sunset,
@@ -1750,9 +4471,18 @@ export = function (app: SignalKApp): SignalKPlugin {
     };
   };
 
-  // Get hourly forecasts from SignalK tree (using SignalK-aligned field names)
-  const getHourlyForecasts = (maxCount: number): WeatherData[] => {
-    const forecasts: WeatherData[] = [];
+  // Read hourly forecasts from SignalK tree (using SignalK-aligned field names)
+  // SignalK field names published for packages: the selected catalogue variables plus derived fields
+  const getPublishedFields = (packages: VariablePackage[], derived: string[] = []): string[] => {
+    const config = state.currentConfig;
+    const fields = packages.flatMap((pkg) =>
+      (config ? config.variables[pkg] : getDefaultVariables(pkg)).map(translateFieldName),
+    );
+    return Array.from(new Set([...fields, ...derived]));
+  };
+
+  const readHourlyForecastData = (maxCount: number): Record<string, any>[] => {
+    const forecasts: Record<string, any>[] = [];
 
     try {
       // Read the UTC offset for timezone conversion
@@ -1783,66 +4513,29 @@ export = function (app: SignalKApp): SignalKPlugin {
       }
 
       // Read forecast data from SignalK tree using translated field names
-      let forecastCount = 0;
-      for (let i = 0; i < maxCount + 10; i++) {
-        const temp = app.getSelfPath(
-          `environment.outside.openmeteo.forecast.hourly.airTemperature.${i}`,
-        );
-        if (temp && temp.value !== undefined) {
-          forecastCount = i + 1;
-        } else {
-          break;
-        }
-      }
-
-      const actualCount = Math.min(forecastCount, maxCount);
+      const fields = getPublishedFields(
+        ["hourly", "marineHourly"],
+        [
+          "pressureTendency",
+          "beaufortForce",
+          "seaState",
+          "waveSteepness",
+          "waveSteepnessClass",
+          "precipitationType",
+          "absoluteHumidity",
+          "dewPointSpread",
+          "condensationRisk",
+        ],
+      );
 
-      for (let i = 0; i < actualCount; i++) {
+      for (let i = 0; i < maxCount; i++) {
         const forecastData: any = {};
-        // Use SignalK-aligned field names (translated names)
-        const fields = [
-          "airTemperature",
-          "relativeHumidity",
-          "dewPoint",
-          "feelsLike",
-          "precipProbability",
-          "precip",
-          "weatherCode",
-          "seaLevelPressure",
-          "cloudCover",
-          "lowCloudCover",
-          "midCloudCover",
-          "highCloudCover",
-          "visibility",
-          "windAvg",
-          "windDirection",
-          "windGust",
-          "uvIndex",
-          "isDaylight",
-          "sunshineDuration",
-          "solarRadiation",
-          "directRadiation",
-          "diffuseRadiation",
-          "irradianceDirectNormal",
-          "significantWaveHeight",
-          "meanWaveDirection",
-          "meanWavePeriod",
-          "windWaveHeight",
-          "windWaveDirection",
-          "windWavePeriod",
-          "swellSignificantHeight",
-          "swellMeanDirection",
-          "swellMeanPeriod",
-          "currentVelocity",
-          "currentDirection",
-          "seaSurfaceTemperature",
-        ];
 
         fields.forEach((field) => {
           const data = app.getSelfPath(
             `environment.outside.openmeteo.forecast.hourly.${field}.${i}`,
           );
-          if (data && data.value !== undefined) {
+          if (data && data.value !== undefined && data.value !== null) {
             forecastData[field] = data.value;
           }
         });
@@ -1865,7 +4558,13 @@ export = function (app: SignalKApp): SignalKPlugin {
             forecastData.utcOffsetSeconds = utcOffsetSeconds;
           }
 
-          forecasts.push(convertToWeatherAPIForecast(forecastData, "point"));
+          if (state.lastForecastUpdate) {
+            forecastData.fetchedAt = state.lastForecastUpdate;
+          }
+
+          forecasts.push(forecastData);
+        } else {
+          break;
         }
       }
     } catch (error) {
@@ -1877,56 +4576,24 @@ export = function (app: SignalKApp): SignalKPlugin {
     return forecasts;
   };
 
-  // Get daily forecasts from SignalK tree (using SignalK-aligned field names)
-  const getDailyForecasts = (maxCount: number): WeatherData[] => {
-    const forecasts: WeatherData[] = [];
+  // Read daily forecasts from SignalK tree (using SignalK-aligned field names)
+  const readDailyForecastData = (maxCount: number): Record<string, any>[] => {
+    const forecasts: Record<string, any>[] = [];
 
     try {
-      let forecastCount = 0;
-      for (let i = 0; i < maxCount + 2; i++) {
-        const temp = app.getSelfPath(
-          `environment.outside.openmeteo.forecast.daily.airTempHigh.${i}`,
-        );
-        if (temp && temp.value !== undefined) {
-          forecastCount = i + 1;
-        } else {
-          break;
-        }
-      }
-
-      const actualCount = Math.min(forecastCount, maxCount);
+      const fields = getPublishedFields(
+        ["daily", "marineDaily"],
+        ["beaufortForce", "seaState", "precipitationType"],
+      );
 
-      for (let i = 0; i < actualCount; i++) {
+      for (let i = 0; i < maxCount; i++) {
         const forecastData: any = {};
-        // Use SignalK-aligned field names (translated names)
-        const fields = [
-          "weatherCode",
-          "airTempHigh",
-          "airTempLow",
-          "feelsLikeHigh",
-          "feelsLikeLow",
-          "sunrise",
-          "sunset",
-          "sunshineDuration",
-          "uvIndexMax",
-          "precipSum",
-          "precipProbabilityMax",
-          "windAvgMax",
-          "windGustMax",
-          "windDirectionDominant",
-          "significantWaveHeightMax",
-          "meanWaveDirectionDominant",
-          "meanWavePeriodMax",
-          "swellSignificantHeightMax",
-          "swellMeanDirectionDominant",
-          "swellMeanPeriodMax",
-        ];
 
         fields.forEach((field) => {
           const data = app.getSelfPath(
             `environment.outside.openmeteo.forecast.daily.${field}.${i}`,
           );
-          if (data && data.value !== undefined) {
+          if (data && data.value !== undefined && data.value !== null) {
             forecastData[field] = data.value;
           }
         });
@@ -1935,7 +4602,12 @@ export = function (app: SignalKApp): SignalKPlugin {
           const date = new Date();
           date.setDate(date.getDate() + i);
           forecastData.date = date.toISOString().split("T")[0];
-          forecasts.push(convertToWeatherAPIForecast(forecastData, "daily"));
+          if (state.lastForecastUpdate) {
+            forecastData.fetchedAt = state.lastForecastUpdate;
+          }
+          forecasts.push(forecastData);
+        } else {
+          break;
         }
       }
     } catch (error) {
@@ -1947,6 +4619,352 @@ export = function (app: SignalKApp): SignalKPlugin {
     return forecasts;
   };
 
+  // Read current conditions snapshot from SignalK tree (using SignalK-aligned field names)
+  const readCurrentConditionsData = (): Record<string, any> | null => {
+    try {
+      const timeData = app.getSelfPath(
+        "environment.outside.openmeteo.current.observationTime",
+      );
+      if (!timeData || timeData.value === undefined) return null;
+
+      const observationData: any = {};
+      const fields = getPublishedFields(
+        ["current"],
+        [
+          "pressureTendency",
+          "beaufortForce",
+          "precipitationType",
+          "absoluteHumidity",
+          "dewPointSpread",
+          "condensationRisk",
+        ],
+      );
+
+      fields.forEach((field) => {
+        const data = app.getSelfPath(
+          `environment.outside.openmeteo.current.${field}`,
+        );
+        if (data && data.value !== undefined && data.value !== null) {
+          observationData[field] = data.value;
+        }
+      });
+
+      observationData.timestamp = String(timeData.value);
+      if (state.lastForecastUpdate) {
+        observationData.fetchedAt = state.lastForecastUpdate;
+      }
+
+      const utcOffsetData = app.getSelfPath("environment.outside.openmeteo.utcOffsetSeconds");
+      if (utcOffsetData?.value !== undefined) {
+        observationData.utcOffsetSeconds = utcOffsetData.value;
+      }
+
+      return observationData;
+    } catch (error) {
+      app.error(
+        `Error reading current conditions: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  };
+
+  // On-demand forecasts for Weather API requests away from the vessel,
+  // keyed by rounded coordinate and hour
+  const positionForecastCache: Map<string, Promise<PositionForecast | null>> = new Map();
+  const POSITION_CACHE_MAX_ENTRIES = 50;
+
+  const getPositionCacheKey = (position: Coordinates): string => {
+    const hourBucket = Math.floor(Date.now() / 3600000);
+    return `${position.latitude.toFixed(2)},${position.longitude.toFixed(2)},${hourBucket}`;
+  };
+
+  // Whether a requested position is close enough to use the published vessel forecast
+  const isNearVessel = (position: Coordinates, config: PluginConfig): boolean => {
+    if (!state.currentPosition) return false;
+    const distanceNm = calculateDistance(state.currentPosition, position) / METERS_PER_NM;
+    return distanceNm <= config.positionTolerance;
+  };
+
+  // Merge records from separate weather and marine packages by their time key
+  const mergeForecastRecords = (
+    primary: Record<string, any>[],
+    secondary: Record<string, any>[],
+    timeKey: "timestamp" | "date",
+  ): Record<string, any>[] => {
+    const merged: Map<string, Record<string, any>> = new Map();
+    [...primary, ...secondary].forEach((record) => {
+      const key = String(record[timeKey]);
+      merged.set(key, { ...(merged.get(key) || {}), ...record });
+    });
+    return Array.from(merged.values()).sort((a, b) =>
+      String(a[timeKey]).localeCompare(String(b[timeKey])),
+    );
+  };
+
+  // Fetch and process a forecast for an arbitrary position through the normal processors
+  const fetchPositionForecast = async (
+    position: Coordinates,
+    config: PluginConfig,
+  ): Promise<PositionForecast | null> => {
+    const requestPosition: Position = {
+      latitude: position.latitude,
+      longitude: position.longitude,
+      timestamp: new Date(),
+    };
+    app.debug(
+      `Fetching on-demand forecast for ${position.latitude.toFixed(4)}, ${position.longitude.toFixed(4)}`,
+    );
+
+    const needsMarine = config.enableMarineHourly || config.enableMarineDaily;
+    const [weatherData, marineData] = await Promise.all([
+      fetchWeatherData(requestPosition, config),
+      needsMarine ? fetchMarineData(requestPosition, config) : Promise.resolve(null),
+    ]);
+
+    if (!weatherData && !marineData) return null;
+
+    const utcOffsetSeconds = weatherData?.utc_offset_seconds;
+    const daily = mergeForecastRecords(
+      config.enableDailyWeather && weatherData
+        ? processDailyWeatherForecast(weatherData, config.maxForecastDays)
+        : [],
+      config.enableMarineDaily && marineData
+        ? processDailyMarineForecast(marineData, config.maxForecastDays)
+        : [],
+      "date",
+    );
+    const hourly = mergeForecastRecords(
+      config.enableHourlyWeather && weatherData
+        ? processHourlyWeatherForecast(weatherData, config.maxForecastHours)
+        : [],
+      config.enableMarineHourly && marineData
+        ? processHourlyMarineForecast(marineData, config.maxForecastHours)
+        : [],
+      "timestamp",
+    );
+
+    // Attach sunrise/sunset and UTC offset for day/night icon calculation
+    const fetchedAt = Date.now();
+    daily.forEach((forecast) => {
+      forecast.fetchedAt = fetchedAt;
+    });
+    hourly.forEach((forecast) => {
+      forecast.fetchedAt = fetchedAt;
+      const day = daily.find((d) => String(forecast.timestamp).startsWith(d.date));
+      if (day?.sunrise && day?.sunset) {
+        forecast.sunrise = day.sunrise;
+        forecast.sunset = day.sunset;
+      }
+      if (utcOffsetSeconds !== undefined) {
+        forecast.utcOffsetSeconds = utcOffsetSeconds;
+      }
+    });
+
+    const current =
+      config.enableCurrentConditions && weatherData
+        ? processCurrentConditions(weatherData)
+        : null;
+    if (current) {
+      current.fetchedAt = fetchedAt;
+      if (utcOffsetSeconds !== undefined) {
+        current.utcOffsetSeconds = utcOffsetSeconds;
+      }
+    }
+
+    return { hourly, daily, current, utcOffsetSeconds };
+  };
+
+  // Get a position-specific forecast from the cache, fetching it if needed
+  const getPositionForecast = (
+    position: Coordinates,
+    config: PluginConfig,
+  ): Promise<PositionForecast | null> => {
+    const key = getPositionCacheKey(position);
+    const cached = positionForecastCache.get(key);
+    if (cached) return cached;
+
+    // Drop entries from previous hours and keep the cache bounded
+    const hourBucket = key.split(",")[2];
+    positionForecastCache.forEach((_, cacheKey) => {
+      if (cacheKey.split(",")[2] !== hourBucket) {
+        positionForecastCache.delete(cacheKey);
+      }
+    });
+    if (positionForecastCache.size >= POSITION_CACHE_MAX_ENTRIES) {
+      const oldestKey = positionForecastCache.keys().next().value;
+      if (oldestKey !== undefined) positionForecastCache.delete(oldestKey);
+    }
+
+    const request = fetchPositionForecast(position, config).then((forecast) => {
+      // Don't cache failures so the next request retries
+      if (!forecast) positionForecastCache.delete(key);
+      return forecast;
+    });
+    positionForecastCache.set(key, request);
+    return request;
+  };
+
+  // Hourly forecast records for a requested position (vessel tree or on demand)
+  const getHourlyForecastData = async (
+    position: Coordinates | undefined,
+    maxCount: number,
+  ): Promise<Record<string, any>[]> => {
+    const config = state.currentConfig;
+    if (!config || !position || isNearVessel(position, config)) {
+      return readHourlyForecastData(maxCount);
+    }
+    const forecast = await getPositionForecast(position, config);
+    return forecast ? forecast.hourly.slice(0, maxCount) : [];
+  };
+
+  // Daily forecast records for a requested position (vessel tree or on demand)
+  const getDailyForecastData = async (
+    position: Coordinates | undefined,
+    maxCount: number,
+  ): Promise<Record<string, any>[]> => {
+    const config = state.currentConfig;
+    if (!config || !position || isNearVessel(position, config)) {
+      return readDailyForecastData(maxCount);
+    }
+    const forecast = await getPositionForecast(position, config);
+    return forecast ? forecast.daily.slice(0, maxCount) : [];
+  };
+
+  // Current conditions for a requested position (vessel tree or on demand)
+  const getCurrentConditionsData = async (
+    position: Coordinates | undefined,
+  ): Promise<Record<string, any> | null> => {
+    const config = state.currentConfig;
+    if (!config || !position || isNearVessel(position, config)) {
+      return readCurrentConditionsData();
+    }
+    const forecast = await getPositionForecast(position, config);
+    return forecast ? forecast.current : null;
+  };
+
+  // Group contiguous forecast hours that breach a threshold into warnings
+  const buildWarnings = (
+    hourly: Record<string, any>[],
+    type: string,
+    breaches: (forecast: Record<string, any>) => boolean,
+    describe: (forecasts: Record<string, any>[]) => string,
+  ): WeatherWarning[] => {
+    const warnings: WeatherWarning[] = [];
+    let run: Record<string, any>[] = [];
+
+    const closeRun = () => {
+      if (run.length === 0) return;
+      // On-demand forecasts carry local times; the vessel tree's are already UTC
+      const first = run[0];
+      const last = run[run.length - 1];
+      const start = new Date(localTimeToUtcIso(String(first.timestamp), first.utcOffsetSeconds));
+      const end = new Date(
+        Date.parse(localTimeToUtcIso(String(last.timestamp), last.utcOffsetSeconds)) + 3600000,
+      );
+      warnings.push({
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        details: describe(run),
+        source: WARNING_SOURCE,
+        type,
+      });
+      run = [];
+    };
+
+    hourly.forEach((forecast) => {
+      if (breaches(forecast)) {
+        run.push(forecast);
+      } else {
+        closeRun();
+      }
+    });
+    closeRun();
+
+    return warnings;
+  };
+
+  // Largest value of a field within a run of forecast hours
+  const maxOf = (forecasts: Record<string, any>[], field: string): number =>
+    Math.max(...forecasts.map((f) => (typeof f[field] === "number" ? f[field] : -Infinity)));
+
+  // Smallest value of a field within a run of forecast hours
+  const minOf = (forecasts: Record<string, any>[], field: string): number =>
+    Math.min(...forecasts.map((f) => (typeof f[field] === "number" ? f[field] : Infinity)));
+
+  const formatWind = (mps: number): string =>
+    `${mps.toFixed(1)} m/s (${(mps * 1.943844).toFixed(0)} kn)`;
+
+  // Derive marine warnings from hourly forecast records against configured thresholds
+  const deriveWarnings = (
+    hourly: Record<string, any>[],
+    config: PluginConfig,
+  ): WeatherWarning[] => {
+    // Sustained wind at the Beaufort boundary, or gusts two forces higher
+    const windBreaches = (force: number) => (f: Record<string, any>) =>
+      (typeof f.windAvg === "number" && f.windAvg >= beaufortLowerBound(force)) ||
+      (typeof f.windGust === "number" && f.windGust >= beaufortLowerBound(force + 2));
+    const describeWind = (label: string, force: number) => (run: Record<string, any>[]) => {
+      const mean = maxOf(run, "windAvg");
+      const gust = maxOf(run, "windGust");
+      const parts = [
+        isFinite(mean) ? `mean wind up to ${formatWind(mean)}` : "",
+        isFinite(gust) ? `gusts up to ${formatWind(gust)}` : "",
+      ].filter(Boolean);
+      return `${label} (Beaufort ${force}+): ${parts.join(", ")}`;
+    };
+
+    const visibilityLimit = config.visibilityWarning * METERS_PER_NM;
+
+    return [
+      ...buildWarnings(
+        hourly,
+        "storm",
+        windBreaches(config.stormWarningForce),
+        describeWind("Storm force winds", config.stormWarningForce),
+      ),
+      ...buildWarnings(
+        hourly,
+        "gale",
+        windBreaches(config.galeWarningForce),
+        describeWind("Gale force winds", config.galeWarningForce),
+      ),
+      ...buildWarnings(
+        hourly,
+        "waves",
+        (f) =>
+          typeof f.significantWaveHeight === "number" &&
+          f.significantWaveHeight >= config.waveHeightWarning,
+        (run) =>
+          `Significant wave height up to ${maxOf(run, "significantWaveHeight").toFixed(1)} m (threshold ${config.waveHeightWarning} m)`,
+      ),
+      ...buildWarnings(
+        hourly,
+        "thunderstorm",
+        (f) =>
+          (typeof f.weatherCode === "number" && f.weatherCode >= 95 && f.weatherCode <= 99) ||
+          (typeof f.cape === "number" && f.cape >= config.capeWarning),
+        (run) => {
+          const cape = maxOf(run, "cape");
+          return `Thunderstorms possible${isFinite(cape) ? `, CAPE up to ${cape.toFixed(0)} J/kg` : ""}`;
+        },
+      ),
+      ...buildWarnings(
+        hourly,
+        "freezing precipitation",
+        (f) => FREEZING_PRECIPITATION_CODES.includes(f.weatherCode),
+        (run) =>
+          `Freezing precipitation: ${Array.from(new Set(run.map((f) => getWeatherDescription(f.weatherCode, "freezing precipitation")))).join(", ")}`,
+      ),
+      ...buildWarnings(
+        hourly,
+        "visibility",
+        (f) => typeof f.visibility === "number" && f.visibility < visibilityLimit,
+        (run) =>
+          `Poor visibility: down to ${(minOf(run, "visibility") / METERS_PER_NM).toFixed(1)} nm (threshold ${config.visibilityWarning} nm)`,
+      ),
+    ].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  };
+
   // Weather API provider
   const weatherProvider: WeatherProvider = {
     name: "Openmeteo Weather",
@@ -1956,12 +4974,9 @@ export = function (app: SignalKApp): SignalKPlugin {
         position: Position,
         options?: WeatherReqParams,
       ): Promise<WeatherData[]> => {
-        // Return current conditions as observation
-        const forecasts = getHourlyForecasts(1);
-        if (forecasts.length > 0) {
-          forecasts[0].type = "observation";
-        }
-        return forecasts;
+        // Return the current conditions snapshot with its observation time
+        const current = await getCurrentConditionsData(position);
+        return current ? [convertToWeatherAPIForecast(current, "observation")] : [];
       },
       getForecasts: async (
         position: Position,
@@ -1971,33 +4986,464 @@ export = function (app: SignalKApp): SignalKPlugin {
         const maxCount = options?.maxCount || (type === "daily" ? 7 : 72);
 
         if (type === "daily") {
-          return getDailyForecasts(maxCount);
+          const daily = await getDailyForecastData(position, maxCount);
+          return daily.map((forecast) => convertToWeatherAPIForecast(forecast, "daily"));
         } else {
-          return getHourlyForecasts(maxCount);
+          const hourly = await getHourlyForecastData(position, maxCount);
+          return hourly.map((forecast) => convertToWeatherAPIForecast(forecast, "point"));
         }
       },
       getWarnings: async (position: Position): Promise<WeatherWarning[]> => {
-        // Open-Meteo doesn't provide weather warnings
-        return [];
+        // Open-Meteo doesn't provide warnings, so derive them from the hourly forecast
+        const config = state.currentConfig;
+        if (!config || !config.enableWarnings) return [];
+        const hourly = await getHourlyForecastData(position, config.maxForecastHours);
+        return deriveWarnings(hourly, config);
       },
     },
   };
 
-  // Setup position subscription
-  const setupPositionSubscription = (config: PluginConfig) => {
-    if (!config.enablePositionSubscription) {
-      app.debug("Position subscription disabled");
-      return;
-    }
+  // Engage moving forecast when the vessel exceeds the speed threshold and
+  // disengage it again when it slows down, unless it was set manually
+  const updateAutoMovingForecast = (config: PluginConfig): void => {
+    if (!config.enableAutoMovingForecast || state.movingForecastManual) return;
 
-    app.debug("Setting up position subscription");
+    const moving =
+      state.currentSOG !== null &&
+      isVesselMoving(state.currentSOG, config.movingSpeedThreshold);
+    if (moving === state.movingForecastEngaged) return;
 
-    const subscription: SubscriptionRequest = {
-      context: "vessels.self",
+    state.movingForecastEngaged = moving;
+    app.debug(
+      moving
+        ? `Auto-enabled moving forecast due to vessel movement exceeding ${config.movingSpeedThreshold} knots`
+        : `Auto-disabled moving forecast, vessel below ${config.movingSpeedThreshold} knots`,
+    );
+    publishControlState();
+  };
+
+  // Load the waypoints of the active route from the resources API
+  const loadRouteWaypoints = async (
+    href: string,
+    reverse: boolean,
+  ): Promise<Coordinates[]> => {
+    const routeId = href.split("/").pop();
+    if (!routeId || !app.resourcesApi) return [];
+
+    const route = await app.resourcesApi.getResource("routes", routeId);
+    const coordinates: number[][] = route?.feature?.geometry?.coordinates || [];
+    const waypoints = coordinates.map(([longitude, latitude]) => ({
+      latitude,
+      longitude,
+    }));
+    return reverse ? waypoints.reverse() : waypoints;
+  };
+
+  // Track the active route published by the course API
+  const updateActiveRoute = (activeRoute: CourseActiveRoute | null): void => {
+    if (!activeRoute || !activeRoute.href) {
+      if (state.activeRoute) {
+        app.debug("Active route cleared");
+      }
+      state.activeRoute = null;
+      return;
+    }
+
+    const reverse = activeRoute.reverse === true;
+    if (
+      state.activeRoute &&
+      state.activeRoute.href === activeRoute.href &&
+      state.activeRoute.reverse === reverse
+    ) {
+      state.activeRoute.pointIndex = activeRoute.pointIndex || 0;
+      return;
+    }
+
+    state.activeRoute = {
+      href: activeRoute.href,
+      name: activeRoute.name,
+      pointIndex: activeRoute.pointIndex || 0,
+      reverse,
+      waypoints: [],
+    };
+
+    loadRouteWaypoints(activeRoute.href, reverse)
+      .then((waypoints) => {
+        if (state.activeRoute?.href !== activeRoute.href) return;
+        state.activeRoute.waypoints = waypoints;
+        app.debug(
+          `Loaded active route ${activeRoute.name || activeRoute.href} with ${waypoints.length} waypoints`,
+        );
+      })
+      .catch((error) => {
+        app.debug(
+          `Unable to load route ${activeRoute.href}, using next point only: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+  };
+
+  // Onboard observations verified against the forecast for the same hour. A forecast
+  // counts as a hit when it is within the tolerance of the hourly mean observation.
+  // Bias correction scales wind (models miss local acceleration proportionally) and
+  // offsets the other variables; corrected lists the forecast fields it is applied to.
+  const VERIFICATION_VARIABLES: Array<{
+    path: string;
+    field: string;
+    tolerance: number;
+    correction: "scale" | "offset";
+    corrected: string[];
+  }> = [
+    {
+      path: "environment.wind.speedTrue",
+      field: "windAvg",
+      tolerance: 2.5, // m/s
+      correction: "scale",
+      corrected: ["windAvg", "windGust"],
+    },
+    {
+      path: "environment.outside.pressure",
+      field: "seaLevelPressure",
+      tolerance: 200, // Pa
+      correction: "offset",
+      corrected: ["seaLevelPressure"],
+    },
+    {
+      path: "environment.outside.temperature",
+      field: "airTemperature",
+      tolerance: 2, // K
+      correction: "offset",
+      corrected: ["airTemperature"],
+    },
+    {
+      path: "environment.water.temperature",
+      field: "seaSurfaceTemperature",
+      tolerance: 1, // K
+      correction: "offset",
+      corrected: ["seaSurfaceTemperature"],
+    },
+  ];
+
+  // Latest forecast issued for each hour, hourly observation sums and matched errors, keyed by hour
+  const verificationForecasts: Map<number, Record<string, number>> = new Map();
+  const verificationObservations: Map<number, Record<string, { sum: number; count: number }>> =
+    new Map();
+  const verificationErrors: Map<
+    string,
+    Array<{ hour: number; error: number; forecast: number; observed: number }>
+  > = new Map();
+
+  // Observations are grouped with the nearest whole hour, like the instantaneous forecast values
+  const getVerificationHour = (time: number): number => Math.round(time / HOUR_MS) * HOUR_MS;
+
+  // Remember the forecast values for the current and coming hours from a fresh fetch
+  const recordVerificationForecasts = (snapshot: ForecastSnapshot): void => {
+    if (!state.currentConfig?.enableVerification) return;
+
+    const currentHour = getVerificationHour(Date.now());
+    [...snapshot.hourlyWeather, ...snapshot.hourlyMarine].forEach((forecast) => {
+      const hour = getVerificationHour(
+        Date.parse(localTimeToUtcIso(String(forecast.timestamp), snapshot.utcOffsetSeconds)),
+      );
+      if (isNaN(hour) || hour < currentHour) return;
+
+      const values = verificationForecasts.get(hour) || {};
+      VERIFICATION_VARIABLES.forEach(({ field }) => {
+        if (typeof forecast[field] === "number") {
+          values[field] = forecast[field];
+        }
+      });
+      verificationForecasts.set(hour, values);
+    });
+  };
+
+  // Bias (forecast - observed), mean absolute error and hit rate per verified variable
+  const calculateVerificationStats = (): Record<
+    string,
+    { bias: number; mae: number; hitRate: number; samples: number }
+  > => {
+    const stats: Record<string, { bias: number; mae: number; hitRate: number; samples: number }> =
+      {};
+    VERIFICATION_VARIABLES.forEach(({ field, tolerance }) => {
+      const errors = verificationErrors.get(field) || [];
+      if (errors.length === 0) return;
+      stats[field] = {
+        bias: errors.reduce((sum, e) => sum + e.error, 0) / errors.length,
+        mae: errors.reduce((sum, e) => sum + Math.abs(e.error), 0) / errors.length,
+        hitRate: errors.filter((e) => Math.abs(e.error) <= tolerance).length / errors.length,
+        samples: errors.length,
+      };
+    });
+    return stats;
+  };
+
+  // Publish rolling verification statistics under environment.outside.openmeteo.verification
+  const publishVerificationStats = (): void => {
+    const values: { path: string; value: any }[] = [];
+    const meta: { path: string; value: any }[] = [];
+
+    Object.entries(calculateVerificationStats()).forEach(([field, stat]) => {
+      const { units, displayName } = getParameterMetadata(field);
+      const prefix = `environment.outside.openmeteo.verification.${field}`;
+      const entries: Array<[string, number, Record<string, string>]> = [
+        [
+          "bias",
+          stat.bias,
+          {
+            units,
+            displayName: `${displayName} Forecast Bias`,
+            description: "Mean of forecast minus observed value",
+          },
+        ],
+        [
+          "mae",
+          stat.mae,
+          {
+            units,
+            displayName: `${displayName} Forecast MAE`,
+            description: "Mean absolute forecast error",
+          },
+        ],
+        [
+          "hitRate",
+          stat.hitRate,
+          {
+            units: "ratio",
+            displayName: `${displayName} Forecast Hit Rate`,
+            description: "Share of hours forecast within tolerance (0-1)",
+          },
+        ],
+        [
+          "samples",
+          stat.samples,
+          {
+            displayName: `${displayName} Verified Hours`,
+            description: "Number of hours in the rolling statistics",
+          },
+        ],
+      ];
+      entries.forEach(([name, value, metadata]) => {
+        values.push({ path: `${prefix}.${name}`, value });
+        meta.push({ path: `${prefix}.${name}`, value: metadata });
+      });
+    });
+
+    if (values.length === 0) return;
+
+    app.handleMessage(plugin.id, {
+      context: "vessels.self",
+      updates: [
+        {
+          $source: getSourceLabel("verification"),
+          timestamp: new Date().toISOString(),
+          values,
+          meta,
+        },
+      ],
+    });
+  };
+
+  // Match completed hours with their forecast and drop errors outside the rolling window
+  const closeVerificationHours = (currentHour: number): void => {
+    const config = state.currentConfig;
+    if (!config) return;
+
+    let matched = false;
+    Array.from(verificationObservations.entries())
+      .filter(([hour]) => hour < currentHour)
+      .forEach(([hour, observations]) => {
+        const forecast = verificationForecasts.get(hour);
+        Object.entries(observations).forEach(([field, { sum, count }]) => {
+          if (typeof forecast?.[field] !== "number" || count === 0) return;
+          const errors = verificationErrors.get(field) || [];
+          const observed = sum / count;
+          errors.push({ hour, error: forecast[field] - observed, forecast: forecast[field], observed });
+          verificationErrors.set(field, errors);
+          matched = true;
+        });
+        verificationObservations.delete(hour);
+      });
+
+    Array.from(verificationForecasts.keys())
+      .filter((hour) => hour < currentHour)
+      .forEach((hour) => verificationForecasts.delete(hour));
+
+    const windowStart = currentHour - config.verificationWindowHours * HOUR_MS;
+    verificationErrors.forEach((errors, field) => {
+      verificationErrors.set(
+        field,
+        errors.filter((e) => e.hour >= windowStart),
+      );
+    });
+
+    if (matched) {
+      publishVerificationStats();
+    }
+  };
+
+  // Verified hours needed before a bias correction is learned, and the limits of the wind scale
+  const BIAS_CORRECTION_MIN_SAMPLES = 6;
+  const BIAS_CORRECTION_SCALE_LIMITS = [0.5, 2];
+
+  // Learned correction per verified variable from the rolling verification errors
+  const getBiasCorrections = (): Record<string, { offset: number; scale: number; samples: number }> => {
+    const corrections: Record<string, { offset: number; scale: number; samples: number }> = {};
+    VERIFICATION_VARIABLES.forEach(({ field, correction }) => {
+      const errors = verificationErrors.get(field) || [];
+      if (errors.length < BIAS_CORRECTION_MIN_SAMPLES) return;
+
+      if (correction === "scale") {
+        const forecastTotal = errors.reduce((sum, e) => sum + e.forecast, 0);
+        const observedTotal = errors.reduce((sum, e) => sum + e.observed, 0);
+        if (forecastTotal <= 0) return;
+        const [minScale, maxScale] = BIAS_CORRECTION_SCALE_LIMITS;
+        corrections[field] = {
+          offset: 0,
+          scale: Math.max(minScale, Math.min(maxScale, observedTotal / forecastTotal)),
+          samples: errors.length,
+        };
+      } else {
+        corrections[field] = {
+          offset: -errors.reduce((sum, e) => sum + e.error, 0) / errors.length,
+          scale: 1,
+          samples: errors.length,
+        };
+      }
+    });
+    return corrections;
+  };
+
+  // Corrected values for the first N forecast hours, tapering linearly to no correction
+  // at hour N. Only corrected fields are returned, to be published under their own source.
+  const applyBiasCorrection = (forecasts: Record<string, any>[]): Record<string, any>[] => {
+    const config = state.currentConfig;
+    if (!config?.enableVerification || !config.enableBiasCorrection) return [];
+
+    const corrections = getBiasCorrections();
+    const hours = config.biasCorrectionHours;
+    const corrected: Record<string, any>[] = [];
+
+    forecasts.slice(0, hours).forEach((forecast, index) => {
+      const leadHour = typeof forecast.relativeHour === "number" ? forecast.relativeHour : index;
+      const weight = Math.max(0, 1 - leadHour / hours);
+      const record: Record<string, any> = {
+        timestamp: forecast.timestamp,
+        relativeHour: forecast.relativeHour,
+      };
+
+      VERIFICATION_VARIABLES.forEach(({ field, corrected: fields }) => {
+        const correction = corrections[field];
+        if (!correction) return;
+        fields.forEach((target) => {
+          if (typeof forecast[target] !== "number") return;
+          record[target] =
+            forecast[target] * (1 + (correction.scale - 1) * weight) + correction.offset * weight;
+        });
+      });
+
+      corrected.push(record);
+    });
+
+    return Object.keys(corrected[0] || {}).length > 2 ? corrected : [];
+  };
+
+  // Add an onboard observation to the current hour
+  const recordVerificationObservation = (field: string, value: number): void => {
+    const hour = getVerificationHour(Date.now());
+    const observations = verificationObservations.get(hour) || {};
+    const entry = observations[field] || { sum: 0, count: 0 };
+    entry.sum += value;
+    entry.count++;
+    observations[field] = entry;
+    verificationObservations.set(hour, observations);
+    closeVerificationHours(hour);
+  };
+
+  // Apply one navigation input, live from the subscription or from a recording
+  const handleNavigationValue = (signalkPath: string, value: any): void => {
+    if (signalkPath === "navigation.position" && value) {
+      const pos = value as { latitude: number; longitude: number };
+      if (pos.latitude && pos.longitude) {
+        const newPosition: Position = {
+          latitude: pos.latitude,
+          longitude: pos.longitude,
+          timestamp: new Date(),
+        };
+
+        if (!state.currentPosition) {
+          state.currentPosition = newPosition;
+          app.debug(
+            `Initial position: ${pos.latitude}, ${pos.longitude}`,
+          );
+          // Trigger initial forecast fetch (use moving vessel if appropriate)
+          if (state.currentConfig && state.forecastEnabled) {
+            doForecastFetch(state.currentConfig);
+          }
+        } else {
+          state.currentPosition = newPosition;
+        }
+      }
+    } else if (signalkPath === "navigation.course.activeRoute") {
+      updateActiveRoute(value as CourseActiveRoute | null);
+    } else if (signalkPath === "navigation.course.nextPoint") {
+      const nextPoint = value as { position?: Coordinates } | null;
+      state.nextPoint = nextPoint?.position
+        ? {
+            latitude: nextPoint.position.latitude,
+            longitude: nextPoint.position.longitude,
+          }
+        : null;
+    } else if (signalkPath === "navigation.courseOverGroundTrue" && value !== null) {
+      state.currentHeading = value as number;
+    } else if (signalkPath === "navigation.speedOverGround" && value !== null) {
+      state.currentSOG = value as number;
+
+      // Auto-engage/disengage moving forecast if enabled
+      if (state.currentConfig) {
+        updateAutoMovingForecast(state.currentConfig);
+      }
+    }
+  };
+
+  // Feed recorded navigation inputs back at the recorded pace, sped up by the replay speed
+  const startNavigationReplay = (config: PluginConfig, entries: RecordingEntry[]): void => {
+    const navigation = entries.filter((entry) => entry.type === "navigation" && entry.path);
+    if (navigation.length === 0) {
+      app.debug("Recording has no navigation inputs to replay");
+      return;
+    }
+
+    const startTime = Date.parse(navigation[0].time);
+    replayTimers = navigation.map((entry) =>
+      setTimeout(
+        () => handleNavigationValue(entry.path as string, entry.value),
+        (Date.parse(entry.time) - startTime) / config.replaySpeed,
+      ),
+    );
+    app.debug(`Replaying ${navigation.length} navigation inputs at ${config.replaySpeed}x`);
+  };
+
+  // Setup position subscription
+  const setupPositionSubscription = (config: PluginConfig) => {
+    if (!config.enablePositionSubscription) {
+      app.debug("Position subscription disabled");
+      return;
+    }
+
+    if (config.recordingMode === "replay") {
+      app.debug("Navigation inputs are replayed from the recording");
+      return;
+    }
+
+    app.debug("Setting up position subscription");
+
+    const subscription: SubscriptionRequest = {
+      context: "vessels.self",
       subscribe: [
         { path: "navigation.position", period: 60000 },
         { path: "navigation.courseOverGroundTrue", period: 60000 },
         { path: "navigation.speedOverGround", period: 60000 },
+        { path: "navigation.course.activeRoute", period: 60000 },
+        { path: "navigation.course.nextPoint", period: 60000 },
       ],
     };
 
@@ -2010,55 +5456,44 @@ export = function (app: SignalKApp): SignalKPlugin {
       (delta) => {
         delta.updates?.forEach((update) => {
           update.values?.forEach((v) => {
-            if (v.path === "navigation.position" && v.value) {
-              const pos = v.value as { latitude: number; longitude: number };
-              if (pos.latitude && pos.longitude) {
-                const newPosition: Position = {
-                  latitude: pos.latitude,
-                  longitude: pos.longitude,
-                  timestamp: new Date(),
-                };
-
-                if (!state.currentPosition) {
-                  state.currentPosition = newPosition;
-                  app.debug(
-                    `Initial position: ${pos.latitude}, ${pos.longitude}`,
-                  );
-                  // Trigger initial forecast fetch (use moving vessel if appropriate)
-                  if (state.currentConfig) {
-                    if (
-                      state.currentSOG &&
-                      isVesselMoving(state.currentSOG, state.currentConfig.movingSpeedThreshold) &&
-                      state.movingForecastEngaged
-                    ) {
-                      fetchForecastForMovingVessel(state.currentConfig);
-                    } else {
-                      fetchAndPublishForecasts(state.currentConfig);
-                    }
-                  }
-                } else {
-                  state.currentPosition = newPosition;
-                }
-              }
-            } else if (v.path === "navigation.courseOverGroundTrue" && v.value !== null) {
-              state.currentHeading = v.value as number;
-            } else if (v.path === "navigation.speedOverGround" && v.value !== null) {
-              state.currentSOG = v.value as number;
-
-              // Auto-engage moving forecast if enabled and speed exceeds threshold
-              if (
-                state.currentConfig?.enableAutoMovingForecast &&
-                isVesselMoving(
-                  state.currentSOG,
-                  state.currentConfig.movingSpeedThreshold,
-                ) &&
-                !state.movingForecastEngaged
-              ) {
-                state.movingForecastEngaged = true;
-                app.debug(
-                  `Auto-enabled moving forecast due to vessel movement exceeding ${state.currentConfig.movingSpeedThreshold} knots`,
-                );
-              }
+            if (config.recordingMode === "record") {
+              appendRecording(config, {
+                time: new Date().toISOString(),
+                type: "navigation",
+                path: v.path,
+                value: v.value,
+              });
+            }
+            handleNavigationValue(v.path, v.value);
+          });
+        });
+      },
+    );
+  };
+
+  // Subscribe to onboard sensors for forecast verification
+  const setupVerificationSubscription = (config: PluginConfig) => {
+    if (!config.enableVerification) return;
+
+    app.debug("Setting up forecast verification subscription");
+
+    const subscription: SubscriptionRequest = {
+      context: "vessels.self",
+      subscribe: VERIFICATION_VARIABLES.map(({ path }) => ({ path, period: 60000 })),
+    };
+
+    app.subscriptionmanager.subscribe(
+      subscription,
+      state.navigationSubscriptions,
+      (err) => {
+        app.error(`Verification subscription error: ${err}`);
+      },
+      (delta) => {
+        delta.updates?.forEach((update) => {
+          update.values?.forEach((v) => {
+            const variable = VERIFICATION_VARIABLES.find(({ path }) => path === v.path);
+            if (variable && typeof v.value === "number") {
+              recordVerificationObservation(variable.field, v.value);
             }
           });
         });
@@ -2066,10 +5501,570 @@ export = function (app: SignalKApp): SignalKPlugin {
     );
   };
 
+  // Fetch cycle in progress, shared so manual refreshes don't overlap the interval
+  let activeForecastFetch: Promise<void> | null = null;
+
+  // Helper to determine which fetch function to use
+  const doForecastFetch = (config: PluginConfig): Promise<void> => {
+    if (activeForecastFetch) {
+      app.debug("Forecast fetch already in progress");
+      return activeForecastFetch;
+    }
+
+    const run = async () => {
+      if (shouldUseMovingForecast(config)) {
+        app.debug("Using position-specific forecasting for moving vessel");
+        await fetchForecastForMovingVessel(config);
+      } else {
+        app.debug("Using standard forecasting for stationary vessel");
+        await fetchAndPublishForecasts(config);
+      }
+    };
+
+    activeForecastFetch = run().finally(() => {
+      activeForecastFetch = null;
+    });
+    return activeForecastFetch;
+  };
+
+  // Plugin state summary for the REST status endpoint
+  const getPluginStatus = (): Record<string, unknown> => {
+    const config = state.currentConfig;
+    return {
+      forecastEnabled: state.forecastEnabled,
+      lastForecastUpdate: state.lastForecastUpdate
+        ? new Date(state.lastForecastUpdate).toISOString()
+        : null,
+      forecastStale: config ? isForecastStale(config) : null,
+      forecastFromCache: state.forecastFromCache,
+      requestBudget: getRequestBudget(),
+      degradedSince: state.degradedSince ? new Date(state.degradedSince).toISOString() : null,
+      consecutiveFailures: state.consecutiveFailures,
+      circuitOpenUntil:
+        state.circuitOpenUntil > Date.now() ? new Date(state.circuitOpenUntil).toISOString() : null,
+      fetchInProgress: activeForecastFetch !== null,
+      verification: config?.enableVerification ? calculateVerificationStats() : null,
+      biasCorrection: config?.enableBiasCorrection ? getBiasCorrections() : null,
+      recordingMode: config?.recordingMode || "off",
+      recordedResponses: config?.recordingMode === "replay" ? recordedResponses.length : null,
+      movingForecastEngaged: state.movingForecastEngaged,
+      movingForecastMode: state.movingForecastManual ? "manual" : "auto",
+      followingRoute: config ? shouldUseMovingForecast(config) && canForecastAlongRoute(config) : false,
+      activeRoute: state.activeRoute
+        ? {
+            href: state.activeRoute.href,
+            name: state.activeRoute.name,
+            pointIndex: state.activeRoute.pointIndex,
+            waypoints: state.activeRoute.waypoints.length,
+          }
+        : null,
+      currentPosition: state.currentPosition,
+      currentHeading: state.currentHeading,
+      currentSOG: state.currentSOG,
+      lastError: state.lastError,
+    };
+  };
+
+  // Most departures evaluated by one departure window request
+  const MAX_DEPARTURES = 72;
+
+  // Error with the HTTP status the departure window endpoint answers with
+  const departureWindowError = (message: string, statusCode: number): Error & { statusCode: number } =>
+    Object.assign(new Error(message), { statusCode });
+
+  const isCoordinates = (value: any): value is Coordinates =>
+    !!value && typeof value.latitude === "number" && typeof value.longitude === "number";
+
+  // Passage route from the request, else the active route from the vessel position
+  const getDepartureRoute = (request: DepartureWindowRequest): Coordinates[] => {
+    if (request.route !== undefined) {
+      if (!Array.isArray(request.route) || request.route.length < 2 || !request.route.every(isCoordinates)) {
+        throw new Error("route needs at least two positions with latitude and longitude");
+      }
+      return request.route.map(({ latitude, longitude }) => ({ latitude, longitude }));
+    }
+    if (request.origin !== undefined || request.destination !== undefined) {
+      if (!isCoordinates(request.origin) || !isCoordinates(request.destination)) {
+        throw new Error("origin and destination need latitude and longitude");
+      }
+      return [request.origin, request.destination];
+    }
+
+    const waypoints = getRemainingRouteWaypoints();
+    if (state.currentPosition && waypoints.length > 0) {
+      return [state.currentPosition, ...waypoints];
+    }
+    throw new Error("Give a route or an origin and destination, or activate a route");
+  };
+
+  // Course of the route leg at a distance along the route
+  const getRouteCourse = (route: Coordinates[], distance: number): number => {
+    let remaining = distance;
+    for (let i = 1; i < route.length; i++) {
+      const legLength = calculateDistance(route[i - 1], route[i]);
+      if (remaining < legLength || i === route.length - 1) {
+        return calculateBearing(route[i - 1], route[i]);
+      }
+      remaining -= legLength;
+    }
+    return 0;
+  };
+
+  const roundTo = (value: number, decimals: number): number =>
+    Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+  // Score candidate departures for a passage against wind, gust, wave and wind angle limits
+  const findDepartureWindows = async (
+    request: DepartureWindowRequest,
+    config: PluginConfig,
+  ): Promise<Record<string, unknown>> => {
+    const route = getDepartureRoute(request);
+
+    const speedKnots =
+      request.speed ??
+      (config.routePlanningSpeed || (state.currentSOG ? state.currentSOG / KNOTS_TO_MPS : 0));
+    if (!(speedKnots > 0)) {
+      throw new Error("Give a planned speed in knots");
+    }
+    const speed = speedKnots * KNOTS_TO_MPS;
+
+    const limits: DepartureLimits = {
+      maxWind: config.departureMaxWind,
+      maxGust: config.departureMaxGust,
+      maxWaveHeight: config.departureMaxWaveHeight,
+      minWindAngle: config.departureMinWindAngle,
+      maxWindAngle: config.departureMaxWindAngle,
+      ...request.limits,
+    };
+    const invalidLimits = (Object.keys(limits) as Array<keyof DepartureLimits>).filter(
+      (key) => typeof limits[key] !== "number" || !isFinite(limits[key]),
+    );
+    if (invalidLimits.length > 0) {
+      throw new Error(`Limits must be numbers: ${invalidLimits.join(", ")}`);
+    }
+    if (!(limits.maxWind > 0 && limits.maxGust > 0 && limits.maxWaveHeight > 0)) {
+      throw new Error("maxWind, maxGust and maxWaveHeight must be positive");
+    }
+    if (
+      limits.minWindAngle < 0 ||
+      limits.maxWindAngle > 180 ||
+      limits.minWindAngle > limits.maxWindAngle
+    ) {
+      throw new Error(
+        "minWindAngle and maxWindAngle must be within 0-180 degrees, with minWindAngle not above maxWindAngle",
+      );
+    }
+
+    // Candidate departures on whole hours; a span without one is evaluated at its start
+    const earliest = request.earliestDeparture ? Date.parse(request.earliestDeparture) : Date.now();
+    const firstDeparture = Math.ceil(earliest / HOUR_MS) * HOUR_MS;
+    const lastDeparture = request.latestDeparture
+      ? Date.parse(request.latestDeparture)
+      : firstDeparture + 24 * HOUR_MS;
+    if (isNaN(earliest) || isNaN(lastDeparture) || lastDeparture < earliest) {
+      throw new Error("Invalid departure span");
+    }
+    const step = Math.max(1, Math.round(request.departureStep || 1)) * HOUR_MS;
+    const departures: number[] = firstDeparture > lastDeparture ? [earliest] : [];
+    for (let t = firstDeparture; t <= lastDeparture && departures.length < MAX_DEPARTURES; t += step) {
+      departures.push(t);
+    }
+    const lastEvaluated = departures[departures.length - 1];
+    const truncated = lastEvaluated + step <= lastDeparture;
+
+    // The track depends only on hours since departure, so each position is fetched
+    // once for all departures, coarsened like the moving forecast when the budget is tight
+    const routeLength = route
+      .slice(1)
+      .reduce((total, waypoint, i) => total + calculateDistance(route[i], waypoint), 0);
+    const passageHours = Math.max(1, Math.ceil(routeLength / speed / 3600));
+    const trackStep = planMovingForecastStep(config, passageHours + 1);
+    if (trackStep === null) {
+      throw departureWindowError("Request budget exhausted, try again later", 429);
+    }
+
+    const track = Array.from({ length: passageHours + 1 }, (_, hour) => {
+      const position = calculateRoutePosition(route[0], route.slice(1), speed, hour);
+      return {
+        hour,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        course: getRouteCourse(route, speed * hour * 3600),
+      };
+    });
+    const sampled = track.filter((point) => point.hour % trackStep === 0 || point.hour === passageHours);
+    const forecasts = await Promise.all(sampled.map((point) => getPositionForecast(point, config)));
+    const failed = sampled.filter((_, index) => !forecasts[index]);
+    if (failed.length > 0) {
+      throw departureWindowError(
+        `Forecast unavailable for ${failed.length} of ${sampled.length} track positions`,
+        503,
+      );
+    }
+
+    // Hourly records by UTC hour for each sampled position
+    const recordsByHour = forecasts.map(
+      (forecast) =>
+        new Map(
+          (forecast?.hourly || []).map((record) => [
+            Math.round(
+              Date.parse(localTimeToUtcIso(record.timestamp, forecast?.utcOffsetSeconds)) / HOUR_MS,
+            ),
+            record,
+          ]),
+        ),
+    );
+    const nearestSample = (hour: number): number =>
+      sampled.reduce(
+        (best, point, index) =>
+          Math.abs(point.hour - hour) < Math.abs(sampled[best].hour - hour) ? index : best,
+        0,
+      );
+
+    const windows: DepartureWindow[] = departures.map((departure) => {
+      const arrival = new Date(departure + (routeLength / speed) * 1000).toISOString();
+      let worst: DepartureWindow["limitingFactor"] & { share: number } = {
+        factor: "wind",
+        time: new Date(departure).toISOString(),
+        share: 0,
+      };
+      let maxWind = 0;
+      let maxGust = 0;
+      let maxWaveHeight = 0;
+      const unchecked: Set<DepartureFactor> = new Set();
+
+      for (const point of track) {
+        const time = departure + point.hour * HOUR_MS;
+        const record = recordsByHour[nearestSample(point.hour)].get(Math.round(time / HOUR_MS));
+        if (!record) {
+          return {
+            departure: new Date(departure).toISOString(),
+            arrival,
+            feasible: false,
+            score: null,
+            limitingFactor: {
+              factor: "forecastRange" as DepartureFactor,
+              time: new Date(time).toISOString(),
+              latitude: roundTo(point.latitude, 4),
+              longitude: roundTo(point.longitude, 4),
+            },
+          };
+        }
+
+        const checks: Array<{ factor: DepartureFactor; value: number; limit: number; share: number }> = [];
+        if (typeof record.windAvg === "number") {
+          const wind = record.windAvg / KNOTS_TO_MPS;
+          maxWind = Math.max(maxWind, wind);
+          checks.push({ factor: "wind", value: wind, limit: limits.maxWind, share: wind / limits.maxWind });
+        } else {
+          unchecked.add("wind");
+        }
+        if (typeof record.windGust === "number") {
+          const gust = record.windGust / KNOTS_TO_MPS;
+          maxGust = Math.max(maxGust, gust);
+          checks.push({ factor: "gust", value: gust, limit: limits.maxGust, share: gust / limits.maxGust });
+        } else {
+          unchecked.add("gust");
+        }
+        if (typeof record.significantWaveHeight !== "number") {
+          unchecked.add("waveHeight");
+        } else {
+          const height = record.significantWaveHeight;
+          maxWaveHeight = Math.max(maxWaveHeight, height);
+          checks.push({
+            factor: "waveHeight",
+            value: height,
+            limit: limits.maxWaveHeight,
+            share: height / limits.maxWaveHeight,
+          });
+        }
+
+        // True wind angle off the bow; not checked in light air (below force 2)
+        const lightAir = typeof record.windAvg === "number" && record.windAvg < beaufortLowerBound(2);
+        const windKnown =
+          typeof record.windAvg === "number" && typeof record.windDirection === "number";
+        if (!lightAir && !windKnown) {
+          if (limits.minWindAngle > 0 || limits.maxWindAngle < 180) {
+            unchecked.add("windAngle");
+          }
+        } else if (!lightAir) {
+          const angle = radToDeg(
+            Math.abs(((record.windDirection - point.course + 3 * Math.PI) % (2 * Math.PI)) - Math.PI),
+          );
+          if (limits.minWindAngle > 0) {
+            checks.push({
+              factor: "windAngle",
+              value: angle,
+              limit: limits.minWindAngle,
+              share: limits.minWindAngle / Math.max(angle, 1),
+            });
+          }
+          if (limits.maxWindAngle < 180) {
+            checks.push({
+              factor: "windAngle",
+              value: angle,
+              limit: limits.maxWindAngle,
+              share: (180 - limits.maxWindAngle) / Math.max(180 - angle, 1),
+            });
+          }
+        }
+
+        checks.forEach((check) => {
+          if (check.share > worst.share) {
+            worst = {
+              factor: check.factor,
+              time: new Date(time).toISOString(),
+              value: roundTo(check.value, 1),
+              limit: check.limit,
+              latitude: roundTo(point.latitude, 4),
+              longitude: roundTo(point.longitude, 4),
+              share: check.share,
+            };
+          }
+        });
+      }
+
+      const { share, ...limitingFactor } = worst;
+      return {
+        departure: new Date(departure).toISOString(),
+        arrival,
+        feasible: share <= 1,
+        score: roundTo(share, 2),
+        limitingFactor,
+        maxWind: roundTo(maxWind, 1),
+        maxGust: roundTo(maxGust, 1),
+        maxWaveHeight: roundTo(maxWaveHeight, 1),
+        unchecked: Array.from(unchecked),
+      };
+    });
+
+    // Feasible departures first, then the lowest score; departures beyond the forecast last
+    windows.sort((a, b) => {
+      if (a.feasible !== b.feasible) return a.feasible ? -1 : 1;
+      if (a.score !== b.score && (a.score === null || b.score === null)) {
+        return a.score === null ? 1 : -1;
+      }
+      return (a.score ?? 0) - (b.score ?? 0) || a.departure.localeCompare(b.departure);
+    });
+
+    return {
+      route,
+      speed: speedKnots,
+      distance: roundTo(routeLength / METERS_PER_NM, 1),
+      passageHours: roundTo(routeLength / speed / 3600, 1),
+      trackStep,
+      limits,
+      lastEvaluated: new Date(lastEvaluated).toISOString(),
+      truncated,
+      windows,
+    };
+  };
+
+  // REST API: processed forecast packages, plugin status and manual refresh
+  plugin.registerWithRouter = (router: any) => {
+    router.get("/forecasts", (_req: any, res: any) => {
+      if (!state.forecastSnapshot) {
+        res.status(404).json({ error: "No forecast available yet" });
+        return;
+      }
+      res.json({
+        stale: state.currentConfig ? isForecastStale(state.currentConfig) : null,
+        fromCache: state.forecastFromCache,
+        ...state.forecastSnapshot,
+      });
+    });
+
+    router.get("/status", (_req: any, res: any) => {
+      res.json(getPluginStatus());
+    });
+
+    router.post("/departure-windows", async (req: any, res: any) => {
+      const config = state.currentConfig;
+      if (!config) {
+        res.status(503).json({ error: "Plugin not started" });
+        return;
+      }
+
+      try {
+        res.json(await findDepartureWindows((req.body || {}) as DepartureWindowRequest, config));
+      } catch (error) {
+        res
+          .status((error as { statusCode?: number }).statusCode || 400)
+          .json({ error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    router.post("/refresh", async (_req: any, res: any) => {
+      const config = state.currentConfig;
+      if (!config) {
+        res.status(503).json({ error: "Plugin not started" });
+        return;
+      }
+      if (!state.currentPosition) {
+        res.status(409).json({ error: "No position available" });
+        return;
+      }
+
+      const previousUpdate = state.lastForecastUpdate;
+      try {
+        await doForecastFetch(config);
+      } catch (error) {
+        reportError(
+          `Manual forecast refresh failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      const updated = state.lastForecastUpdate !== previousUpdate && !state.forecastFromCache;
+      res.status(updated ? 200 : 502).json(getPluginStatus());
+    });
+  };
+
+  const CONTROL_PATH = "environment.outside.openmeteo.control";
+
+  // Publish the controllable plugin state so dashboards can show it
+  const publishControlState = (): void => {
+    const values = [
+      { path: `${CONTROL_PATH}.movingForecast`, value: state.movingForecastEngaged },
+      {
+        path: `${CONTROL_PATH}.movingForecastMode`,
+        value: state.movingForecastManual ? "manual" : "auto",
+      },
+      { path: `${CONTROL_PATH}.forecastEnabled`, value: state.forecastEnabled },
+    ];
+
+    app.handleMessage(plugin.id, {
+      context: "vessels.self",
+      updates: [
+        {
+          $source: getSourceLabel("control"),
+          timestamp: new Date().toISOString(),
+          values,
+          meta: values.map(({ path }) => ({
+            path,
+            value: getParameterMetadata(path.split(".").pop() as string),
+          })),
+        },
+      ],
+    });
+  };
+
+  // Parse a PUT value as a boolean (accepts booleans, 0/1 and "true"/"false"/"on"/"off")
+  const parseBooleanValue = (value: unknown): boolean | null => {
+    if (typeof value === "boolean") return value;
+    if (value === 1 || value === 0) return value === 1;
+    if (typeof value === "string") {
+      const normalized = value.trim().toLowerCase();
+      if (["true", "on", "1"].includes(normalized)) return true;
+      if (["false", "off", "0"].includes(normalized)) return false;
+    }
+    return null;
+  };
+
+  // Register PUT handlers so instrument dashboards can drive the plugin
+  const registerControlHandlers = (config: PluginConfig): void => {
+    // Engage (true) or disengage (false) moving forecast mode; "auto" returns control to the speed threshold
+    app.registerPutHandler(
+      "vessels.self",
+      `${CONTROL_PATH}.movingForecast`,
+      (_context, _path, value) => {
+        if (value === "auto" || value === null) {
+          state.movingForecastManual = false;
+          state.movingForecastEngaged = false;
+          updateAutoMovingForecast(config);
+        } else {
+          const engaged = parseBooleanValue(value);
+          if (engaged === null) {
+            return { state: "COMPLETED", statusCode: 400 };
+          }
+          state.movingForecastManual = true;
+          state.movingForecastEngaged = engaged;
+        }
+        app.debug(
+          `Moving forecast ${state.movingForecastEngaged ? "engaged" : "disengaged"} (${state.movingForecastManual ? "manual" : "auto"})`,
+        );
+        publishControlState();
+        return { state: "COMPLETED", statusCode: 200 };
+      },
+      plugin.id,
+    );
+
+    // Pause (false) or resume (true) scheduled forecast fetching
+    app.registerPutHandler(
+      "vessels.self",
+      `${CONTROL_PATH}.forecastEnabled`,
+      (_context, _path, value) => {
+        const enabled = parseBooleanValue(value);
+        if (enabled === null) {
+          return { state: "COMPLETED", statusCode: 400 };
+        }
+        state.forecastEnabled = enabled;
+        app.debug(`Forecast fetching ${enabled ? "resumed" : "paused"}`);
+        app.setPluginStatus(enabled ? "Active - Forecast fetching resumed" : "Paused");
+        publishControlState();
+        return { state: "COMPLETED", statusCode: 200 };
+      },
+      plugin.id,
+    );
+
+    // Request an immediate forecast refresh; completes when the fetch finishes
+    app.registerPutHandler(
+      "vessels.self",
+      `${CONTROL_PATH}.refresh`,
+      (_context, _path, _value, callback) => {
+        if (!state.currentPosition) {
+          return { state: "COMPLETED", statusCode: 409 };
+        }
+
+        const previousUpdate = state.lastForecastUpdate;
+        doForecastFetch(config)
+          .then(() => {
+            const updated =
+              state.lastForecastUpdate !== previousUpdate && !state.forecastFromCache;
+            callback?.({ state: "COMPLETED", statusCode: updated ? 200 : 502 });
+          })
+          .catch((error) => {
+            reportError(
+              `Forecast refresh failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+            callback?.({ state: "COMPLETED", statusCode: 502 });
+          });
+        return { state: "PENDING", statusCode: 202 };
+      },
+      plugin.id,
+    );
+  };
+
   // Plugin start
   plugin.start = (options: Partial<PluginConfig>) => {
     const config: PluginConfig = {
       apiKey: options.apiKey || "",
+      endpoints: options.endpoints || {},
+      customHeaders: Array.isArray(options.customHeaders) ? options.customHeaders : [],
+      variables: resolveVariables(options.variables),
+      enableWindAloft: options.enableWindAloft || false,
+      mastheadHeight: options.mastheadHeight || 0,
+      enableAirQuality: options.enableAirQuality || false,
+      enableVerification: options.enableVerification || false,
+      verificationWindowHours: options.verificationWindowHours || 72,
+      enableBiasCorrection: options.enableBiasCorrection || false,
+      biasCorrectionHours: options.biasCorrectionHours || 12,
+      recordingMode: options.recordingMode || "off",
+      recordingFile: options.recordingFile || "recording.jsonl",
+      replaySpeed: options.replaySpeed || 1,
+      departureMaxWind: options.departureMaxWind || 25,
+      departureMaxGust: options.departureMaxGust || 35,
+      departureMaxWaveHeight: options.departureMaxWaveHeight || 2.5,
+      departureMinWindAngle: options.departureMinWindAngle ?? 40,
+      departureMaxWindAngle: options.departureMaxWindAngle ?? 180,
+      solarArrays: Array.isArray(options.solarArrays)
+        ? options.solarArrays.map((array) => ({
+            name: array.name || "",
+            tilt: array.tilt || 0,
+            azimuth: array.azimuth ?? 180,
+            peakPower: array.peakPower || 0,
+            losses: array.losses ?? 14,
+          }))
+        : [],
       forecastInterval: options.forecastInterval || 60,
       altitude: options.altitude || 2,
       enablePositionSubscription: options.enablePositionSubscription !== false,
@@ -2082,10 +6077,44 @@ export = function (app: SignalKApp): SignalKPlugin {
       enableCurrentConditions: options.enableCurrentConditions !== false,
       enableAutoMovingForecast: options.enableAutoMovingForecast || false,
       movingSpeedThreshold: options.movingSpeedThreshold || 1.0,
+      primaryModel: options.primaryModel || "best_match",
+      models: Array.isArray(options.models) ? options.models : [],
+      enableEnsemble: options.enableEnsemble || false,
+      ensembleModel: options.ensembleModel || "ecmwf_ifs025",
+      enableRouteForecast: options.enableRouteForecast !== false,
+      routePlanningSpeed: options.routePlanningSpeed || 0,
+      positionTolerance: options.positionTolerance ?? 5,
+      enableWarnings: options.enableWarnings !== false,
+      galeWarningForce: options.galeWarningForce || 8,
+      stormWarningForce: options.stormWarningForce || 10,
+      waveHeightWarning: options.waveHeightWarning || 4,
+      capeWarning: options.capeWarning || 1500,
+      visibilityWarning: options.visibilityWarning || 1,
+      enableForecastPersistence: options.enableForecastPersistence !== false,
+      staleForecastHours: options.staleForecastHours || 6,
+      requestsPerMinute: options.requestsPerMinute || 600,
+      requestsPerHour: options.requestsPerHour || 5000,
+      requestsPerDay: options.requestsPerDay || 10000,
+      maxRetries: options.maxRetries ?? 3,
+      retryBaseDelay: options.retryBaseDelay || 2,
+      requestTimeout: options.requestTimeout || 30,
+      circuitBreakerThreshold: options.circuitBreakerThreshold || 5,
+      circuitBreakerCooldown: options.circuitBreakerCooldown || 10,
     };
 
+    // Wind and temperature aloft are requested on top of the selected hourly variables
+    if (config.enableWindAloft) {
+      config.variables.hourly = Array.from(
+        new Set([...config.variables.hourly, ...WIND_ALOFT_VARIABLES]),
+      );
+    }
+
     state.currentConfig = config;
 
+    if (config.enableBiasCorrection && !config.enableVerification) {
+      app.error("Bias correction needs forecast verification enabled; no corrections will be applied");
+    }
+
     app.debug("Starting Open-Meteo plugin");
     app.setPluginStatus("Initializing...");
 
@@ -2099,36 +6128,60 @@ export = function (app: SignalKApp): SignalKPlugin {
       );
     }
 
+    // Register PUT handlers for dashboard control
+    try {
+      registerControlHandlers(config);
+      publishControlState();
+    } catch (error) {
+      app.error(
+        `Failed to register PUT handlers: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    // Republish the persisted forecast so data is available before the first fetch
+    if (config.enableForecastPersistence) {
+      loadForecastSnapshot()
+        .then((snapshot) => {
+          if (!snapshot || state.forecastSnapshot) return;
+          state.lastForecastUpdate = Date.parse(snapshot.fetchedAt);
+          state.forecastSnapshot = snapshot;
+          app.debug(`Loaded persisted forecast from ${snapshot.fetchedAt}`);
+          republishPersistedForecast();
+        })
+        .catch((error) => {
+          app.error(
+            `Failed to republish persisted forecast: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        });
+    }
+
+    // Replay a recording instead of calling Open-Meteo and following live navigation
+    if (config.recordingMode === "replay") {
+      loadRecording(config).then((entries) => {
+        recordedResponses = entries.filter((entry) => entry.type === "response" && entry.url);
+        app.debug(`Loaded ${recordedResponses.length} recorded responses for replay`);
+        startNavigationReplay(config, entries);
+      });
+    }
+
     // Setup position subscription
     setupPositionSubscription(config);
-
-    // Helper to determine which fetch function to use
-    const doForecastFetch = async () => {
-      if (
-        state.currentSOG &&
-        isVesselMoving(state.currentSOG, config.movingSpeedThreshold) &&
-        state.movingForecastEngaged
-      ) {
-        app.debug("Using position-specific forecasting for moving vessel");
-        await fetchForecastForMovingVessel(config);
-      } else {
-        app.debug("Using standard forecasting for stationary vessel");
-        await fetchAndPublishForecasts(config);
-      }
-    };
+    setupVerificationSubscription(config);
 
     // Setup forecast interval
     const intervalMs = config.forecastInterval * 60 * 1000;
     state.forecastInterval = setInterval(async () => {
       if (state.forecastEnabled && state.currentPosition) {
-        await doForecastFetch();
+        await doForecastFetch(config);
+      } else if (state.forecastFromCache) {
+        republishPersistedForecast();
       }
     }, intervalMs);
 
     // Initial fetch if position is available
     setTimeout(async () => {
       if (state.currentPosition) {
-        await doForecastFetch();
+        await doForecastFetch(config);
       } else {
         app.debug("No position available yet, waiting for position subscription");
         app.setPluginStatus("Waiting for position...");
@@ -2160,8 +6213,23 @@ export = function (app: SignalKApp): SignalKPlugin {
     state.currentPosition = null;
     state.currentHeading = null;
     state.currentSOG = null;
-    state.lastForecastUpdate = 0;
     state.movingForecastEngaged = false;
+    state.movingForecastManual = false;
+    state.forecastEnabled = true;
+    state.activeRoute = null;
+    state.nextPoint = null;
+    state.lastError = null;
+    state.consecutiveFailures = 0;
+    state.degradedSince = null;
+    state.circuitOpenUntil = 0;
+    positionForecastCache.clear();
+    publishedSlots.clear();
+    verificationForecasts.clear();
+    verificationObservations.clear();
+    verificationErrors.clear();
+    replayTimers.forEach((timer) => clearTimeout(timer));
+    replayTimers = [];
+    recordedResponses = [];
 
     app.setPluginStatus("Stopped");
   };
@@ -31,6 +31,9 @@ export interface SignalKApp {
     source?: string,
   ) => void;
   registerWeatherProvider: (provider: WeatherProvider) => void;
+  resourcesApi?: {
+    getResource: (resourceType: string, resourceId: string) => Promise<any>;
+  };
 }
 
 export interface SignalKPlugin {
@@ -47,6 +50,29 @@ export interface SignalKPlugin {
 // Plugin configuration
 export interface PluginConfig {
   apiKey?: string; // Optional - Open-Meteo has free tier
+  endpoints: Partial<Record<OpenMeteoEndpoint, string>>; // self-hosted base URLs
+  customHeaders: Array<{ name: string; value: string }>;
+  variables: Record<VariablePackage, string[]>; // Open-Meteo variables requested per package
+  // Wind aloft settings
+  enableWindAloft: boolean;
+  mastheadHeight: number; // m above the waterline, 0 = no masthead interpolation
+  // Air quality forecast
+  enableAirQuality: boolean;
+  // Forecast verification against onboard sensors
+  enableVerification: boolean;
+  verificationWindowHours: number;
+  enableBiasCorrection: boolean; // requires enableVerification
+  biasCorrectionHours: number;
+  recordingMode: RecordingMode;
+  recordingFile: string; // in the plugin data directory
+  replaySpeed: number;
+  departureMaxWind: number; // knots
+  departureMaxGust: number; // knots
+  departureMaxWaveHeight: number; // m
+  departureMinWindAngle: number; // degrees off the bow
+  departureMaxWindAngle: number; // degrees off the bow
+  // Solar production forecast
+  solarArrays: SolarArray[];
   forecastInterval: number;
   altitude: number;
   enablePositionSubscription: boolean;
@@ -61,8 +87,95 @@ export interface PluginConfig {
   // Moving forecast settings
   enableAutoMovingForecast: boolean;
   movingSpeedThreshold: number;
+  // Forecast models
+  primaryModel: string; // Open-Meteo model served by the Weather API
+  models: string[]; // additional models published under forecast.<model>
+  // Ensemble forecast settings
+  enableEnsemble: boolean;
+  ensembleModel: string;
+  // Route forecast settings
+  enableRouteForecast: boolean;
+  routePlanningSpeed: number; // knots, 0 = use current SOG
+  // Weather API settings
+  positionTolerance: number; // nm, requests closer than this use the vessel forecast
+  // Derived warning thresholds
+  enableWarnings: boolean;
+  galeWarningForce: number; // Beaufort force
+  stormWarningForce: number; // Beaufort force
+  waveHeightWarning: number; // m
+  capeWarning: number; // J/kg
+  visibilityWarning: number; // nm
+  // Offline persistence settings
+  enableForecastPersistence: boolean;
+  staleForecastHours: number;
+  // Request budget
+  requestsPerMinute: number;
+  requestsPerHour: number;
+  requestsPerDay: number;
+  // Retry and circuit breaker
+  maxRetries: number;
+  retryBaseDelay: number; // seconds, doubled per retry
+  requestTimeout: number; // seconds
+  circuitBreakerThreshold: number; // consecutive failures
+  circuitBreakerCooldown: number; // minutes
+}
+
+// Forecast packages whose variables can be picked in the plugin configuration
+export type VariablePackage =
+  | "hourly"
+  | "daily"
+  | "current"
+  | "marineHourly"
+  | "marineDaily"
+  | "airQuality";
+
+// Unit conversions from Open-Meteo units to SignalK base units
+export type VariableConversion =
+  | "celsiusToKelvin"
+  | "degToRad"
+  | "mmToM"
+  | "cmToM"
+  | "hPaToPa"
+  | "kPaToPa"
+  | "percentToRatio"
+  | "kmhToMs"
+  | "microgramsToKilograms";
+
+// Weather API field a catalogue variable is reported as
+export type WeatherApiField =
+  | { group: "outside"; key: keyof NonNullable<WeatherData["outside"]> }
+  | { group: "water"; key: keyof NonNullable<WeatherData["water"]> }
+  | { group: "wind"; key: keyof NonNullable<WeatherData["wind"]> };
+
+// Open-Meteo variable catalogue entry
+export interface VariableDefinition {
+  name: string; // Open-Meteo variable name
+  signalkName: string; // SignalK-aligned field name
+  packages: VariablePackage[]; // packages the variable can be requested in
+  defaults?: VariablePackage[]; // packages it is selected in by default (all when omitted)
+  units?: string; // SignalK units after conversion
+  conversion?: VariableConversion;
+  displayName: string;
+  description: string;
+  weatherApi?: WeatherApiField;
 }
 
+// Solar panel array for the PV production forecast
+export interface SolarArray {
+  name: string;
+  tilt: number; // degrees from horizontal
+  azimuth: number; // degrees true the panels face
+  peakPower: number; // W at 1000 W/m2
+  losses: number; // percent
+}
+
+// Open-Meteo endpoints whose base URL can be overridden
+export type OpenMeteoEndpoint =
+  | "forecast"
+  | "marine"
+  | "ensemble"
+  | "airQuality";
+
 // Plugin state
 export interface PluginState {
   forecastInterval: ReturnType<typeof setInterval> | null;
@@ -74,6 +187,28 @@ export interface PluginState {
   lastForecastUpdate: number;
   forecastEnabled: boolean;
   movingForecastEngaged: boolean;
+  movingForecastManual: boolean; // set via PUT, auto-engage logic is suspended
+  activeRoute: ActiveRoute | null;
+  nextPoint: Coordinates | null;
+  forecastSnapshot: ForecastSnapshot | null; // last published forecast packages
+  forecastFromCache: boolean; // true when serving a persisted forecast offline
+  lastError: { message: string; time: string } | null;
+  rateLimitedUntil: number; // epoch ms, set from HTTP 429 Retry-After
+  consecutiveFailures: number; // requests that failed after all retries
+  degradedSince: number | null; // epoch ms of the first failure in the current run
+  circuitOpenUntil: number; // epoch ms, requests are short-circuited until then
+}
+
+// Remaining Open-Meteo request budget reported in plugin status
+export interface RequestBudget {
+  usedLastMinute: number;
+  usedLastHour: number;
+  usedLastDay: number;
+  remainingMinute: number;
+  remainingHour: number;
+  remainingDay: number;
+  queued: number;
+  rateLimitedUntil: string | null;
 }
 
 // Position data
@@ -83,12 +218,122 @@ export interface Position {
   timestamp: Date;
 }
 
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// navigation.course.activeRoute value published by the SignalK course API
+export interface CourseActiveRoute {
+  href: string;
+  name?: string;
+  pointIndex?: number;
+  pointTotal?: number;
+  reverse?: boolean;
+}
+
+// Active route from the SignalK course API, with waypoints in travel order
+export interface ActiveRoute {
+  href: string;
+  name?: string;
+  pointIndex: number; // index of the next waypoint
+  reverse: boolean;
+  waypoints: Coordinates[];
+}
+
 // Predicted position for future forecast hours
 export interface PredictedPosition extends Position {
   hour: number; // relative hour (0 = now, 1 = +1 hour, etc.)
   distanceFromCurrent: number; // nautical miles from current position
 }
 
+// Limits a departure is scored against (knots, metres, degrees off the bow)
+export interface DepartureLimits {
+  maxWind: number;
+  maxGust: number;
+  maxWaveHeight: number;
+  minWindAngle: number;
+  maxWindAngle: number;
+}
+
+// Passage and candidate departures for the departure window finder. Without a route
+// or origin and destination, the active route is planned from the vessel position.
+export interface DepartureWindowRequest {
+  route?: Coordinates[];
+  origin?: Coordinates;
+  destination?: Coordinates;
+  speed?: number; // knots
+  earliestDeparture?: string; // ISO8601, default now
+  latestDeparture?: string; // ISO8601, default 24 hours after the earliest
+  departureStep?: number; // hours
+  limits?: Partial<DepartureLimits>;
+}
+
+export type DepartureFactor =
+  | "wind"
+  | "gust"
+  | "waveHeight"
+  | "windAngle"
+  | "forecastRange";
+
+// One candidate departure, scored by the highest share of a limit reached on passage
+export interface DepartureWindow {
+  departure: string;
+  arrival: string;
+  feasible: boolean;
+  score: number | null; // above 1 breaches a limit; null when beyond the forecast
+  limitingFactor: {
+    factor: DepartureFactor;
+    time: string;
+    value?: number;
+    limit?: number;
+    latitude?: number;
+    longitude?: number;
+  };
+  maxWind?: number; // knots
+  maxGust?: number; // knots
+  maxWaveHeight?: number; // m
+  unchecked?: DepartureFactor[]; // limits missing forecast data at some passage hour
+}
+
+// Record Open-Meteo responses and navigation inputs, or replay them offline
+export type RecordingMode = "off" | "record" | "replay";
+
+// One line of a record-and-replay file
+export interface RecordingEntry {
+  time: string; // ISO8601 when recorded
+  type: "response" | "navigation";
+  url?: string; // response: request URL without the API key
+  body?: string; // response: raw JSON body
+  path?: string; // navigation: SignalK path
+  value?: any; // navigation: SignalK value
+}
+
+// Processed forecast packages from one fetch cycle, persisted for offline use
+export interface ForecastSnapshot {
+  fetchedAt: string;
+  position: Coordinates;
+  utcOffsetSeconds?: number;
+  current: Record<string, any> | null;
+  hourlyWeather: Record<string, any>[];
+  hourlyMarine: Record<string, any>[];
+  dailyWeather: Record<string, any>[];
+  dailyMarine: Record<string, any>[];
+  modelHourly: Record<string, Record<string, any>[]>; // comparison models by id
+  hourlyEnsemble: Record<string, any>[]; // ensemble spread statistics
+  hourlySolar: Record<string, any>[]; // expected panel power
+  dailySolar: Record<string, any>[]; // expected panel energy
+  hourlyAirQuality: Record<string, any>[];
+}
+
+// Processed forecast fetched on demand for a Weather API position request
+export interface PositionForecast {
+  hourly: Record<string, any>[];
+  daily: Record<string, any>[];
+  current: Record<string, any> | null;
+  utcOffsetSeconds?: number;
+}
+
 // Open-Meteo Weather API response types
 export interface OpenMeteoWeatherResponse {
   latitude: number;
@@ -120,6 +365,49 @@ export interface OpenMeteoMarineResponse {
   daily?: OpenMeteoDailyMarine;
 }
 
+// Open-Meteo Ensemble API response types (members as <variable>_memberNN)
+export interface OpenMeteoEnsembleResponse {
+  latitude: number;
+  longitude: number;
+  generationtime_ms: number;
+  utc_offset_seconds: number;
+  timezone: string;
+  timezone_abbreviation: string;
+  hourly_units?: OpenMeteoUnits;
+  hourly?: OpenMeteoHourlyEnsemble;
+}
+
+export interface OpenMeteoHourlyEnsemble {
+  time: string[];
+  [variable: string]: Array<number | null> | string[];
+}
+
+// Open-Meteo Air Quality API response types
+export interface OpenMeteoAirQualityResponse {
+  latitude: number;
+  longitude: number;
+  generationtime_ms: number;
+  utc_offset_seconds: number;
+  timezone: string;
+  timezone_abbreviation: string;
+  hourly_units?: OpenMeteoUnits;
+  hourly?: OpenMeteoHourlyAirQuality;
+}
+
+export interface OpenMeteoHourlyAirQuality {
+  time: string[];
+  pm10?: number[];
+  pm2_5?: number[];
+  ozone?: number[];
+  dust?: number[];
+  european_aqi?: number[];
+  us_aqi?: number[];
+  carbon_monoxide?: number[];
+  nitrogen_dioxide?: number[];
+  sulphur_dioxide?: number[];
+  [variable: string]: Array<number | null> | string[] | undefined;
+}
+
 export interface OpenMeteoUnits {
   time?: string;
   [key: string]: string | undefined;